@@ -0,0 +1,227 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { z } from 'zod';
+import { FormConflictError, FormService } from '../src/services/formService';
+import { parseFormDefinition, parseQuestionDefinition } from '../src/logic/formTransfer';
+
+type Params = Record<string, string>;
+type Handler = (params: Params, body: unknown) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// Answered with 400; `errors` lists each problem with the path to the offending value
+class BadRequestError extends Error {
+  constructor(message: string, public errors: string[] = []) {
+    super(message);
+    this.name = 'BadRequestError';
+  }
+}
+
+// What the store keeps besides the definition; the revision is needed to detect conflicts
+const storedFieldsSchema = z.object({
+  revision: z.number().int().positive(),
+  createdAt: z.number(),
+  archived: z.boolean().optional(),
+});
+
+const questionBodySchema = z.object({
+  question: z.record(z.unknown()),
+  revision: z.number().int().positive(),
+});
+
+// Mirrors `FormValues`: text, numbers, choices, file references and matrix rows
+const answersSchema = z.record(
+  z.union([
+    z.string(),
+    z.number(),
+    z.array(z.string()),
+    z.array(z.object({ id: z.string(), name: z.string(), type: z.string(), size: z.number() })),
+    z.record(z.string()),
+  ])
+);
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => {
+    const path = issue.path.join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+
+// Bodies are checked like imported files, so a bad write can't break later reads
+const parseFormBody = (body: unknown) => {
+  const result = parseFormDefinition(body);
+  if (!result.success) {
+    throw new BadRequestError('Invalid form', result.errors);
+  }
+  const archived = (body as { archived?: unknown }).archived;
+  return { ...result.form, ...(typeof archived === 'boolean' ? { archived } : {}) };
+};
+
+const parseStoredFields = (body: unknown) => {
+  const result = storedFieldsSchema.safeParse(body);
+  if (!result.success) {
+    throw new BadRequestError('Invalid form', formatIssues(result.error));
+  }
+  return result.data;
+};
+
+// The question takes its id from the URL
+const parseQuestionBody = (body: unknown, questionId: string) => {
+  const result = questionBodySchema.safeParse(body);
+  if (!result.success) {
+    throw new BadRequestError('Invalid question', formatIssues(result.error));
+  }
+  const question = parseQuestionDefinition({ ...result.data.question, id: questionId }, ['question']);
+  if (!question.success) {
+    throw new BadRequestError('Invalid question', question.errors);
+  }
+  return { question: question.question, revision: result.data.revision };
+};
+
+const parseAnswersBody = (body: unknown) => {
+  const result = answersSchema.safeParse(body);
+  if (!result.success) {
+    throw new BadRequestError('Invalid answers', formatIssues(result.error));
+  }
+  return result.data;
+};
+
+// Malformed escapes such as "%E0%A4%A" are the client's fault, not the server's
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new BadRequestError('Malformed URL');
+  }
+};
+
+// Turns "/forms/:id/revisions/:revision" into a matcher with named captures
+const route = (method: string, path: string, handler: Handler): Route => {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    `^${path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    })}/?$`
+  );
+  return { method, pattern, keys, handler };
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, payload?: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+/**
+ * Reference implementation of the REST API used by `createHttpFormService`.
+ * Every route delegates to a form service, so the server stores data exactly
+ * the way the browser does.
+ */
+export const createReferenceServer = (service: FormService) => {
+  const routes: Route[] = [
+    route('GET', '/forms', () => service.getForms()),
+    route('POST', '/forms', (_, body) => service.saveForm(parseFormBody(body))),
+    route('GET', '/forms/:id', ({ id }) => service.getForm(id)),
+    route('PUT', '/forms/:id', ({ id }, body) =>
+      service.updateForm({
+        ...parseFormBody(body),
+        ...parseStoredFields(body),
+        id,
+        updatedAt: Date.now(),
+      })
+    ),
+    route('DELETE', '/forms/:id', ({ id }) => service.deleteForm(id)),
+    route('POST', '/forms/:id/duplicate', ({ id }) => service.duplicateForm(id)),
+    route('PUT', '/forms/:id/questions/:questionId', ({ id, questionId }, body) => {
+      const { question, revision } = parseQuestionBody(body, questionId);
+      return service.saveQuestion(id, question, revision);
+    }),
+    route('GET', '/forms/:id/revisions', ({ id }) => service.getRevisions(id)),
+    route('GET', '/forms/:id/revisions/:revision', ({ id, revision }) =>
+      service.getRevision(id, Number(revision))
+    ),
+    route('GET', '/forms/:id/submissions', ({ id }) => service.getSubmissions(id)),
+    route('POST', '/forms/:id/submissions', ({ id }, body) =>
+      service.saveSubmission(id, parseAnswersBody(body))
+    ),
+    route('GET', '/submissions/:id', ({ id }) => service.getSubmission(id)),
+    route('DELETE', '/submissions/:id', ({ id }) => service.deleteSubmission(id)),
+  ];
+
+  return createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+      return;
+    }
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const pathMatches = routes.filter((r) => r.pattern.test(path));
+    const match = pathMatches.find((r) => r.method === req.method);
+
+    if (!match) {
+      send(res, pathMatches.length ? 405 : 404, { error: pathMatches.length ? 'Method not allowed' : 'Not found' });
+      return;
+    }
+
+    let params: Params;
+    let body: unknown;
+    try {
+      const values = path.match(match.pattern)!.slice(1).map(decodeParam);
+      params = Object.fromEntries(match.keys.map((key, i) => [key, values[i]]));
+      body = await readBody(req);
+    } catch (error) {
+      send(res, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+      return;
+    }
+
+    try {
+      const result = await match.handler(params, body);
+      send(res, result === undefined ? 204 : 200, result);
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        send(res, 400, { error: error.message, errors: error.errors });
+        return;
+      }
+      if (error instanceof FormConflictError) {
+        send(res, 409, { error: error.message, current: error.current });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Internal server error';
+      send(res, /not found$/i.test(message) ? 404 : 500, { error: message });
+    }
+  });
+};
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { StorageAdapter } from '../src/services/storage';
+
+/**
+ * Keeps every key in one JSON file. Writes go to a temporary file first and
+ * are renamed into place, so a crash never leaves a half-written store.
+ */
+export const createFileStorageAdapter = (filePath: string): StorageAdapter => {
+  const readAll = async (): Promise<Record<string, unknown>> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  const writeAll = async (data: Record<string, unknown>) => {
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, filePath);
+  };
+
+  return {
+    async getItem<T>(key: string) {
+      const data = await readAll();
+      return key in data ? (data[key] as T) : null;
+    },
+
+    async setItem<T>(key: string, value: T) {
+      await writeAll({ ...(await readAll()), [key]: value });
+    },
+
+    async removeItem(key: string) {
+      const data = await readAll();
+      delete data[key];
+      await writeAll(data);
+    },
+  };
+};
@@ -0,0 +1,13 @@
+import { resolve } from 'path';
+import { createFormService } from '../src/services/formService';
+import { createFileStorageAdapter } from './fileStorageAdapter';
+import { createReferenceServer } from './createServer';
+
+const port = Number(process.env.PORT) || 4000;
+const dataFile = resolve(process.env.DATA_FILE || 'server/data/db.json');
+
+const service = createFormService(createFileStorageAdapter(dataFile), { getDelay: () => 0 });
+
+createReferenceServer(service).listen(port, () => {
+  console.log(`Form builder reference server on http://localhost:${port} (data: ${dataFile})`);
+});
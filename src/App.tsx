@@ -6,53 +6,47 @@ import {
   TabPanels,
   TabPanel,
   Box,
+  Button,
+  HStack,
+  Heading,
+  Select,
+  Spinner,
   useToast,
 } from '@chakra-ui/react';
+import { FaArrowLeft } from 'react-icons/fa';
 import { FormBuilder } from './components/FormBuilder/FormBuilder';
 import { FormRenderer } from './components/FormRenderer/FormRenderer';
-import { Form, Question } from './types/form';
+import { FormDashboard } from './components/FormDashboard/FormDashboard';
+import { FormResponses } from './components/FormResponses/FormResponses';
+import { FormAnalytics } from './components/FormAnalytics/FormAnalytics';
+import { Form, FormValues } from './types/form';
 import { formService } from './services/formService';
+import { responseDrafts } from './services/responseDrafts';
 import { useEffect, useState } from 'react';
 import theme from './theme';
+import { isQuestionValid } from './validation/questionDefinition';
+import { getFormLocales } from './logic/translations';
+import { getLocaleName } from './logic/messages';
+import { FORM_LINK_PARAM, parsePrefillParams } from './logic/prefill';
 
-const isQuestionValid = (question: Question): boolean => {
-  // Check if question has a valid title
-  if (!question.label?.trim()) {
-    return false;
-  }
-  
-  // Check if question has a valid type
-  if (!question.type) {
-    return false;
-  }
-
-  // For number type questions, validate min/max
-  if (question.type === 'number' && 
-      question.validation?.min !== undefined && 
-      question.validation?.max !== undefined) {
-    if (question.validation.min > question.validation.max) {
-      return false;
-    }
-  }
+const PREVIEW_TAB = 1;
 
-  return true;
-};
 
 function App() {
   const [form, setForm] = useState<Form | null>(null);
+  const [isLoadingForm, setIsLoadingForm] = useState(false);
   const [activeTab, setActiveTab] = useState(0);
+  const [previewLocale, setPreviewLocale] = useState<string | undefined>();
+  // Share links (?form=<id>&...) open a form in the preview, prefilled from the other parameters
+  const [linkParams] = useState(() => new URLSearchParams(window.location.search));
   const toast = useToast();
 
-  useEffect(() => {
-    loadForm();
-  }, []);
-
-  const loadForm = async () => {
+  const openForm = async (formId: string, tab = 0) => {
+    setIsLoadingForm(true);
     try {
-      const forms = await formService.getForms();
-      if (forms.length > 0) {
-        setForm(forms[0]);
-      }
+      setForm(await formService.getForm(formId));
+      setActiveTab(tab);
+      setPreviewLocale(undefined);
     } catch (error) {
       console.error('Failed to load form:', error);
       toast({
@@ -62,12 +56,26 @@ function App() {
         duration: 5000,
         isClosable: true,
       });
+    } finally {
+      setIsLoadingForm(false);
+    }
+  };
+
+  useEffect(() => {
+    const linkedFormId = linkParams.get(FORM_LINK_PARAM);
+    if (linkedFormId) {
+      openForm(linkedFormId, PREVIEW_TAB);
     }
+  }, []);
+
+  const closeForm = () => {
+    setForm(null);
+    setActiveTab(0);
   };
 
-  const handleFormSubmit = () => {
-    // Here you would typically send the form data to a server
-    // For now, we'll just silently handle the submission
+  const handleFormSubmit = async (values: Record<string, unknown>) => {
+    if (!form) return;
+    await formService.saveSubmission(form.id, values as FormValues);
   };
 
   const handleFormSave = async (savedForm: Form) => {
@@ -78,33 +86,88 @@ function App() {
     if (!form) return null;
     return {
       ...form,
-      questions: form.questions.filter(isQuestionValid)
+      questions: form.questions.filter((q) => isQuestionValid(q, form.questions))
     };
   };
 
+  if (!form) {
+    return (
+      <ChakraProvider theme={theme}>
+        <Box p={4}>
+          {isLoadingForm ? (
+            <HStack justify="center" py={8}>
+              <Spinner size="xl" />
+            </HStack>
+          ) : (
+            <FormDashboard onOpenForm={openForm} />
+          )}
+        </Box>
+      </ChakraProvider>
+    );
+  }
+
   return (
     <ChakraProvider theme={theme}>
       <Box p={4}>
+        <HStack spacing={4} mb={4}>
+          <Button leftIcon={<FaArrowLeft />} variant="ghost" onClick={closeForm}>
+            All forms
+          </Button>
+          <Heading size="md">{form.title || 'Untitled form'}</Heading>
+        </HStack>
+
         <Tabs index={activeTab} onChange={setActiveTab} isLazy>
           <TabList>
             <Tab>Form Builder</Tab>
-            <Tab isDisabled={!form}>Form Preview</Tab>
+            <Tab>Form Preview</Tab>
+            <Tab>Responses</Tab>
+            <Tab>Analytics</Tab>
           </TabList>
 
           <TabPanels>
             <TabPanel>
               <FormBuilder
-                initialForm={form || undefined}
+                key={form.id}
+                initialForm={form}
                 onSave={handleFormSave}
               />
             </TabPanel>
             <TabPanel>
-              {form && (
-                <FormRenderer
-                  form={getValidForm() || { ...form, questions: [] }}
-                  onSubmit={handleFormSubmit}
-                />
+              {getFormLocales(form).length > 1 && (
+                <Select
+                  maxW="200px"
+                  mx="auto"
+                  aria-label="Preview language"
+                  value={previewLocale ?? getFormLocales(form)[0]}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    setPreviewLocale(e.target.value)
+                  }
+                >
+                  {getFormLocales(form).map((locale) => (
+                    <option key={locale} value={locale}>
+                      {getLocaleName(locale)}
+                    </option>
+                  ))}
+                </Select>
               )}
+              <FormRenderer
+                key={form.id}
+                form={getValidForm() || { ...form, questions: [] }}
+                locale={previewLocale}
+                prefill={
+                  form.id === linkParams.get(FORM_LINK_PARAM)
+                    ? parsePrefillParams(form.questions, linkParams)
+                    : undefined
+                }
+                drafts={responseDrafts}
+                onSubmit={handleFormSubmit}
+              />
+            </TabPanel>
+            <TabPanel>
+              <FormResponses key={form.id} form={form} />
+            </TabPanel>
+            <TabPanel>
+              <FormAnalytics key={form.id} form={form} />
             </TabPanel>
           </TabPanels>
         </Tabs>
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Container,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Progress,
+  SimpleGrid,
+  Spinner,
+  Stat,
+  StatHelpText,
+  StatLabel,
+  StatNumber,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tooltip,
+  Tr,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { Form, Question, Submission } from '../../types/form';
+import { formService } from '../../services/formService';
+import {
+  ChoiceSummary,
+  MatrixSummary,
+  NumberSummary,
+  QuestionSummary,
+  TextSummary,
+  filterSubmissionsByDate,
+  getCompletionRate,
+  summarizeQuestion,
+} from '../../logic/responseAnalytics';
+
+interface FormAnalyticsProps {
+  form: Form;
+}
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+const formatNumber = (value: number | null) =>
+  value === null ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Date inputs give "YYYY-MM-DD"; the range covers whole days in local time
+const startOfDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const endOfDay = (date: string) => startOfDay(date) + 24 * 60 * 60 * 1000 - 1;
+
+const NumberDetails: React.FC<{ summary: NumberSummary }> = ({ summary }) => {
+  const highest = Math.max(1, ...summary.histogram.map((bin) => bin.count));
+
+  return (
+    <VStack spacing={3} align="stretch">
+      <SimpleGrid columns={{ base: 2, md: 5 }} spacing={3}>
+        {(
+          [
+            ['Count', summary.answered],
+            ['Mean', summary.mean],
+            ['Median', summary.median],
+            ['Min', summary.min],
+            ['Max', summary.max],
+          ] as const
+        ).map(([label, value]) => (
+          <Stat key={label} size="sm">
+            <StatLabel>{label}</StatLabel>
+            <StatNumber fontSize="lg">{formatNumber(value)}</StatNumber>
+          </Stat>
+        ))}
+      </SimpleGrid>
+
+      {summary.histogram.length > 0 && (
+        <HStack spacing={1} align="flex-end" h="100px" role="img" aria-label="Histogram of answers">
+          {summary.histogram.map((bin) => (
+            <Tooltip
+              key={bin.start}
+              label={
+                bin.start === bin.end
+                  ? `${formatNumber(bin.start)}: ${bin.count}`
+                  : `${formatNumber(bin.start)} – ${formatNumber(bin.end)}: ${bin.count}`
+              }
+            >
+              <Box
+                flex={1}
+                h={`${(bin.count / highest) * 100}%`}
+                minH={bin.count ? '2px' : 0}
+                bg="blue.400"
+                borderTopRadius="sm"
+              />
+            </Tooltip>
+          ))}
+        </HStack>
+      )}
+      {summary.histogram.length > 0 && (
+        <HStack justify="space-between" fontSize="xs" color="gray.500">
+          <Text>{formatNumber(summary.min)}</Text>
+          <Text>{formatNumber(summary.max)}</Text>
+        </HStack>
+      )}
+    </VStack>
+  );
+};
+
+const TextDetails: React.FC<{ summary: TextSummary }> = ({ summary }) => (
+  <VStack spacing={2} align="stretch">
+    <Text fontSize="sm" color="gray.600">
+      {summary.answered} answer{summary.answered === 1 ? '' : 's'} · {formatPercent(summary.blankRate)}{' '}
+      left blank
+    </Text>
+    {summary.topAnswers.length > 0 && (
+      <>
+        <Text fontSize="sm" fontWeight="semibold">
+          Most common answers
+        </Text>
+        {summary.topAnswers.map((answer) => (
+          <HStack key={answer.value} justify="space-between">
+            <Text noOfLines={1}>{answer.value}</Text>
+            <Badge>{answer.count}</Badge>
+          </HStack>
+        ))}
+      </>
+    )}
+  </VStack>
+);
+
+const ChoiceDetails: React.FC<{ summary: ChoiceSummary }> = ({ summary }) => (
+  <VStack spacing={2} align="stretch">
+    {summary.counts.map((entry) => (
+      <Box key={entry.value}>
+        <HStack justify="space-between" fontSize="sm">
+          <Text noOfLines={1}>{entry.value}</Text>
+          <Text color="gray.600">
+            {entry.count}
+            {summary.answered > 0 && ` (${formatPercent(entry.count / summary.answered)})`}
+          </Text>
+        </HStack>
+        <Progress
+          value={summary.answered ? (entry.count / summary.answered) * 100 : 0}
+          size="sm"
+          borderRadius="full"
+          aria-label={entry.value}
+        />
+      </Box>
+    ))}
+  </VStack>
+);
+
+const MatrixDetails: React.FC<{ summary: MatrixSummary }> = ({ summary }) => {
+  const columns = [...new Set(summary.rows.flatMap((row) => row.counts.map((entry) => entry.value)))];
+
+  return (
+    <TableContainer whiteSpace="normal">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Th />
+            {columns.map((column) => (
+              <Th key={column} isNumeric textTransform="none" letterSpacing="normal">
+                {column}
+              </Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {summary.rows.map((row) => (
+            <Tr key={row.row}>
+              <Th scope="row" textTransform="none" letterSpacing="normal" fontWeight="normal">
+                {row.row}
+              </Th>
+              {columns.map((column) => (
+                <Td key={column} isNumeric>
+                  {row.counts.find((entry) => entry.value === column)?.count ?? 0}
+                </Td>
+              ))}
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+const renderDetails = (summary: QuestionSummary) => {
+  switch (summary.kind) {
+    case 'number':
+      return <NumberDetails summary={summary} />;
+    case 'text':
+      return <TextDetails summary={summary} />;
+    case 'choice':
+      return <ChoiceDetails summary={summary} />;
+    case 'matrix':
+      return <MatrixDetails summary={summary} />;
+  }
+};
+
+export const FormAnalytics: React.FC<FormAnalyticsProps> = ({ form }) => {
+  const [submissions, setSubmissions] = useState<Submission[] | null>(null);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const toast = useToast();
+
+  useEffect(() => {
+    const loadSubmissions = async () => {
+      try {
+        setSubmissions(await formService.getSubmissions(form.id));
+      } catch (error) {
+        setSubmissions([]);
+        toast({
+          title: 'Failed to load responses',
+          description: error instanceof Error ? error.message : 'Unknown error',
+          status: 'error',
+          duration: 5000,
+          isClosable: true,
+        });
+      }
+    };
+
+    loadSubmissions();
+  }, [form.id, toast]);
+
+  if (!submissions) {
+    return (
+      <Container maxW="container.lg" py={8}>
+        <VStack spacing={4} align="center">
+          <Spinner size="xl" />
+          <Text>Loading responses...</Text>
+        </VStack>
+      </Container>
+    );
+  }
+
+  const filtered = filterSubmissionsByDate(submissions, {
+    from: fromDate ? startOfDay(fromDate) : undefined,
+    to: toDate ? endOfDay(toDate) : undefined,
+  });
+  const completionRate = getCompletionRate(filtered, form.questions);
+  const summaries = form.questions
+    .map((question) => ({ question, summary: summarizeQuestion(question, filtered) }))
+    .filter((entry): entry is { question: Question; summary: QuestionSummary } => !!entry.summary);
+
+  return (
+    <Container maxW="container.lg" py={8}>
+      <VStack spacing={6} align="stretch">
+        <HStack spacing={4} align="flex-end" flexWrap="wrap">
+          <FormControl maxW="200px">
+            <FormLabel>From</FormLabel>
+            <Input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFromDate(e.target.value)}
+            />
+          </FormControl>
+          <FormControl maxW="200px">
+            <FormLabel>To</FormLabel>
+            <Input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setToDate(e.target.value)}
+            />
+          </FormControl>
+          {(fromDate || toDate) && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setFromDate('');
+                setToDate('');
+              }}
+            >
+              Clear dates
+            </Button>
+          )}
+        </HStack>
+
+        <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+          <Stat p={4} borderWidth="1px" borderRadius="lg" bg="white">
+            <StatLabel>Responses</StatLabel>
+            <StatNumber>{filtered.length}</StatNumber>
+            {filtered.length !== submissions.length && (
+              <StatHelpText>of {submissions.length} in total</StatHelpText>
+            )}
+          </Stat>
+          <Stat p={4} borderWidth="1px" borderRadius="lg" bg="white">
+            <StatLabel>Completion rate</StatLabel>
+            <StatNumber>{completionRate === null ? '—' : formatPercent(completionRate)}</StatNumber>
+            <StatHelpText>Responses that answered every question they were shown</StatHelpText>
+          </Stat>
+        </SimpleGrid>
+
+        {filtered.length === 0 ? (
+          <Text color="gray.500">No responses in this period.</Text>
+        ) : (
+          summaries.map(({ question, summary }) => (
+            <Box key={question.id} p={5} borderWidth="1px" borderRadius="lg" bg="white">
+              <HStack justify="space-between" mb={3}>
+                <Text fontWeight="semibold">{question.label}</Text>
+                <Text fontSize="sm" color="gray.500">
+                  {summary.answered} of {summary.shown} answered
+                </Text>
+              </HStack>
+              {renderDetails(summary)}
+            </Box>
+          ))
+        )}
+      </VStack>
+    </Container>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Input,
+  VStack,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import { ValidationRule } from '../../types/form';
+import { FILE_TYPE_PRESETS } from '../../logic/fileUpload';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+interface FileRulesEditorProps {
+  validation: ValidationRule | undefined;
+  error?: string;
+  onChange: (
+    field: 'acceptedFileTypes' | 'maxFileSize' | 'maxFiles',
+    value: string[] | number | undefined
+  ) => void;
+}
+
+const parseTypes = (text: string) =>
+  text
+    .split(',')
+    .map((type) => type.trim())
+    .filter(Boolean);
+
+export const FileRulesEditor: React.FC<FileRulesEditorProps> = ({ validation, error, onChange }) => {
+  const acceptedTypes = validation?.acceptedFileTypes || [];
+  // Typed text is kept as is, so a trailing comma or decimal point doesn't vanish mid-typing
+  const [typesText, setTypesText] = useState(acceptedTypes.join(', '));
+  const [sizeText, setSizeText] = useState(
+    validation?.maxFileSize !== undefined
+      ? String(Number((validation.maxFileSize / BYTES_PER_MB).toFixed(2)))
+      : ''
+  );
+
+  const setTypes = (types: string[]) => {
+    onChange('acceptedFileTypes', types.length ? types : undefined);
+  };
+
+  const handleTypesTextChange = (text: string) => {
+    setTypesText(text);
+    setTypes(parseTypes(text));
+  };
+
+  const togglePreset = (types: string[]) => {
+    const isActive = types.every((type) => acceptedTypes.includes(type));
+    const next = isActive
+      ? acceptedTypes.filter((type) => !types.includes(type))
+      : [...new Set([...acceptedTypes, ...types])];
+    setTypesText(next.join(', '));
+    setTypes(next);
+  };
+
+  return (
+    <VStack spacing={3} align="stretch">
+      <FormControl isInvalid={!!error}>
+        <FormLabel>Accepted File Types</FormLabel>
+        <Input
+          value={typesText}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleTypesTextChange(e.target.value)}
+          placeholder="Any file type"
+          fontFamily="mono"
+        />
+        {error ? (
+          <FormErrorMessage>{error}</FormErrorMessage>
+        ) : (
+          <FormHelperText>MIME types separated by commas, e.g. application/pdf, image/*</FormHelperText>
+        )}
+        <Wrap spacing={2} mt={2}>
+          {FILE_TYPE_PRESETS.map((preset) => (
+            <WrapItem key={preset.label}>
+              <Button
+                size="xs"
+                variant={preset.types.every((type) => acceptedTypes.includes(type)) ? 'solid' : 'outline'}
+                onClick={() => togglePreset(preset.types)}
+              >
+                {preset.label}
+              </Button>
+            </WrapItem>
+          ))}
+        </Wrap>
+      </FormControl>
+
+      <HStack spacing={4}>
+        <FormControl>
+          <FormLabel>Maximum File Size (MB)</FormLabel>
+          <Input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={sizeText}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              const megabytes = parseFloat(e.target.value);
+              setSizeText(e.target.value);
+              onChange('maxFileSize', megabytes > 0 ? Math.round(megabytes * BYTES_PER_MB) : undefined);
+            }}
+            placeholder="No limit"
+          />
+        </FormControl>
+
+        <FormControl>
+          <FormLabel>Maximum Files</FormLabel>
+          <Input
+            type="number"
+            min={1}
+            value={validation?.maxFiles ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange(
+                'maxFiles',
+                parseInt(e.target.value) > 0 ? parseInt(e.target.value) : undefined
+              )
+            }
+            placeholder="No limit"
+          />
+        </FormControl>
+      </HStack>
+    </VStack>
+  );
+};
@@ -1,5 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import {
+  AlertDialog,
+  AlertDialogBody,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogOverlay,
   Box,
   Button,
   Container,
@@ -8,55 +14,73 @@ import {
   Spinner,
   HStack,
   Text,
+  IconButton,
+  Tooltip,
+  Badge,
+  Drawer,
+  DrawerBody,
+  SimpleGrid,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerHeader,
+  DrawerOverlay,
+  useDisclosure,
 } from '@chakra-ui/react';
+import { FaUndo, FaRedo, FaHistory, FaPalette, FaLanguage, FaLink } from 'react-icons/fa';
 import { nanoid } from 'nanoid';
-import { Form, Question } from '../../types/form';
+import { Form, FormPage, FormTheme, Question } from '../../types/form';
 import { QuestionBuilder } from './QuestionBuilder';
+import { PageEditor } from './PageEditor';
+import { ThemeEditor } from './ThemeEditor';
+import { TranslationEditor } from './TranslationEditor';
+import { PrefillLinkEditor } from './PrefillLinkEditor';
+import { FormHistory } from '../FormHistory/FormHistory';
+import { FormRenderer } from '../FormRenderer/FormRenderer';
 import { formService } from '../../services/formService';
+import { applyOutboxEntries, saveOutbox } from '../../services/saveOutbox';
 import { v4 as uuidv4 } from 'uuid';
+import { isQuestionValid } from '../../validation/questionDefinition';
+import { moveQuestion, sortQuestionsByPage } from '../../logic/pages';
+import { findMissingTranslations } from '../../logic/translations';
+import { useHistory } from '../../hooks/useHistory';
+import { useSaveOutbox } from '../../hooks/useSaveOutbox';
 
 interface FormBuilderProps {
   initialForm?: Form;
   onSave?: (form: Form) => void;
 }
 
-const isQuestionValid = (question: Question): boolean => {
-  // Check if question has a valid title
-  if (!question.label?.trim()) {
-    return false;
-  }
-  
-  // Check if question has a valid type
-  if (!question.type) {
-    return false;
-  }
-
-  // For number type questions, validate min/max
-  if (question.type === 'number' && 
-      question.validation?.min !== undefined && 
-      question.validation?.max !== undefined) {
-    if (question.validation.min > question.validation.max) {
-      return false;
-    }
-  }
-
-  return true;
-};
-
 export const FormBuilder: React.FC<FormBuilderProps> = ({
   initialForm,
   onSave,
 }) => {
-  const [form, setForm] = useState<Form | null>(null);
-  const [isSaving, setIsSaving] = useState(false);
+  const history = useHistory<Form | null>(null);
+  const form = history.value;
+  const latestFormRef = useRef<Form | null>(null);
+  latestFormRef.current = form;
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout>();
+  // Last revision confirmed by the service; every write is checked against it
+  const revisionRef = useRef<number | null>(null);
+  const conflictCancelRef = useRef<HTMLButtonElement>(null);
   const [expandedQuestionId, setExpandedQuestionId] = useState<string | null>(null);
+  const [draggedQuestionId, setDraggedQuestionId] = useState<string | null>(null);
+  const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null);
+  const historyPanel = useDisclosure();
+  const themePanel = useDisclosure();
+  const translationPanel = useDisclosure();
+  const prefillPanel = useDisclosure();
 
   useEffect(() => {
     const initializeForm = async () => {
       if (initialForm) {
-        setForm(initialForm);
+        // Later saves echo back through initialForm; only a different form starts a new history
+        if (latestFormRef.current?.id !== initialForm.id) {
+          // Saves that never reached the service are replayed on top of the loaded form
+          const pending = await saveOutbox.getEntries(initialForm.id);
+          history.reset(applyOutboxEntries(initialForm, pending));
+          revisionRef.current = initialForm.revision;
+        }
       } else {
         // Create and save a new form
         const newForm = {
@@ -68,7 +92,8 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
         };
         try {
           const savedForm = await formService.saveForm(newForm);
-          setForm(savedForm);
+          history.reset(savedForm);
+          revisionRef.current = savedForm.revision;
           onSave?.(savedForm);
         } catch (error) {
           toast({
@@ -95,35 +120,124 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
 
   const toast = useToast();
 
-  const saveForm = async (updatedForm: Form) => {
-    setIsSaving(true);
-    try {
-      const savedForm = await formService.updateForm(updatedForm);
-      setForm(savedForm);
+  const sync = useSaveOutbox({
+    formId: form?.id,
+    getRevision: () => revisionRef.current,
+    onSaved: (savedForm) => {
+      revisionRef.current = savedForm.revision;
+      // Keep edits made while the request was in flight; only take the server's metadata
+      history.replace((current) =>
+        current?.id === savedForm.id
+          ? { ...current, revision: savedForm.revision, updatedAt: savedForm.updatedAt }
+          : current
+      );
       onSave?.(savedForm);
       setLastSaved(new Date());
-    } catch (error) {
-      toast({
-        title: 'Failed to save form',
-        description: error instanceof Error ? error.message : 'Unknown error',
-        status: 'error',
-        duration: 5000,
-        isClosable: true,
-      });
-    } finally {
-      setIsSaving(false);
+    },
+  });
+  const { conflict } = sync;
+
+  // Sends anything left in the outbox by an earlier session
+  useEffect(() => {
+    if (form?.id) {
+      sync.flush();
+    }
+  }, [form?.id, sync.flush]);
+
+  const saveForm = (updatedForm: Form) => {
+    // A direct save already carries every pending change
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    return sync.enqueue({ kind: 'form', formId: updatedForm.id, form: updatedForm });
+  };
+
+  const handleQuestionSave = (formId: string, question: Question) => {
+    // Question saves land up to a few seconds after the edit. By then the question may be
+    // deleted, or an undo may have reverted it; saving it then would bring the edit back
+    const current = latestFormRef.current?.questions.find((q) => q.id === question.id);
+    if (!current || JSON.stringify(current) !== JSON.stringify(question)) {
+      return Promise.resolve();
+    }
+    return sync.enqueue({ kind: 'question', formId, question });
+  };
+
+  // Drops local changes in favour of the stored form
+  const handleLoadLatest = async () => {
+    if (!conflict) return;
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    await sync.resolveConflict();
+    history.reset(conflict);
+    revisionRef.current = conflict.revision;
+    onSave?.(conflict);
+  };
+
+  // Writes the local form on top of the stored one
+  const handleKeepMine = async () => {
+    if (!conflict || !latestFormRef.current) return;
+    await sync.resolveConflict();
+    revisionRef.current = conflict.revision;
+    saveForm(latestFormRef.current);
+  };
+
+  const scheduleSave = () => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
     }
+    saveTimeoutRef.current = setTimeout(() => {
+      if (latestFormRef.current) {
+        saveForm(latestFormRef.current);
+      }
+    }, 1000);
   };
 
+  const handleUndo = () => {
+    if (!history.canUndo) return;
+    history.undo();
+    scheduleSave();
+  };
+
+  const handleRedo = () => {
+    if (!history.canRedo) return;
+    history.redo();
+    scheduleSave();
+  };
+
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>();
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      handleUndo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      handleRedo();
+    }
+  };
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => shortcutHandlerRef.current?.(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
   const handleQuestionUpdate = (updatedQuestion: Question) => {
     if (!form) return;
 
-    const updatedQuestions = form.questions.map((q) =>
-      q.id === updatedQuestion.id ? updatedQuestion : q
+    const updatedQuestions = sortQuestionsByPage(
+      form.questions.map((q) => (q.id === updatedQuestion.id ? updatedQuestion : q)),
+      form.pages
     );
-    const updatedForm = { ...form, questions: updatedQuestions, updatedAt: Date.now() };
-    setForm(updatedForm);
-    saveForm(updatedForm);
+    history.set({ ...form, questions: updatedQuestions, updatedAt: Date.now() });
+
+    // The question saves itself; only a page change that reorders the form needs a full save
+    if (updatedQuestions.some((q, index) => q.id !== form.questions[index].id)) {
+      scheduleSave();
+    }
   };
 
   const handleQuestionDelete = (questionId: string) => {
@@ -131,46 +245,140 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
 
     const updatedQuestions = form.questions.filter((q) => q.id !== questionId);
     const updatedForm = { ...form, questions: updatedQuestions, updatedAt: Date.now() };
-    setForm(updatedForm);
+    history.set(updatedForm);
     saveForm(updatedForm);
   };
 
-  const handleAddQuestion = async () => {
+  const handleQuestionMove = (questionId: string, toIndex: number) => {
+    if (!form) return;
+
+    const updatedQuestions = moveQuestion(form.questions, form.pages, questionId, toIndex);
+    if (updatedQuestions === form.questions) return;
+
+    const updatedForm = { ...form, questions: updatedQuestions, updatedAt: Date.now() };
+    history.set(updatedForm);
+    saveForm(updatedForm);
+  };
+
+  // Dropping onto a card takes its place, so the marker goes on the side the card moves away from
+  const getDropIndicatorProps = (index: number) => {
+    const draggedIndex = form?.questions.findIndex((q) => q.id === draggedQuestionId) ?? -1;
+    if (dropTargetIndex !== index || draggedIndex === -1 || draggedIndex === index) return {};
+
+    return draggedIndex < index
+      ? { borderBottomWidth: '3px', borderBottomColor: 'blue.400' }
+      : { borderTopWidth: '3px', borderTopColor: 'blue.400' };
+  };
+
+  const handleDragEnd = () => {
+    setDraggedQuestionId(null);
+    setDropTargetIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (draggedQuestionId) {
+      handleQuestionMove(draggedQuestionId, index);
+    }
+    handleDragEnd();
+  };
+
+  const handlePagesChange = (pages: FormPage[]) => {
+    if (!form) return;
+
+    // Questions on a deleted page move to the first remaining page
+    const fallbackPageId = pages[0]?.id;
+    const updatedQuestions = form.questions.map((q) =>
+      pages.some((page) => page.id === q.pageId) ? q : { ...q, pageId: fallbackPageId }
+    );
+    const updatedForm = {
+      ...form,
+      pages,
+      questions: sortQuestionsByPage(updatedQuestions, pages),
+      updatedAt: Date.now(),
+    };
+    history.set(updatedForm);
+
+    // Page titles are typed straight into the form, so batch those saves
+    scheduleSave();
+  };
+
+  const handleThemeChange = (theme: FormTheme | undefined) => {
+    if (!form) return;
+
+    history.set({ ...form, theme, updatedAt: Date.now() });
+
+    // Colors and labels change on every keystroke or picker move, so batch those saves
+    scheduleSave();
+  };
+
+  const handleTranslationsChange = (changes: Pick<Form, 'defaultLocale' | 'translations'>) => {
+    if (!form) return;
+
+    history.set({ ...form, ...changes, updatedAt: Date.now() });
+    scheduleSave();
+  };
+
+  const handleRestoreRevision = (snapshot: Form) => {
+    if (!form) return;
+
+    // The restored content becomes a new draft on top of the current revision
+    const restoredForm = {
+      ...snapshot,
+      id: form.id,
+      archived: form.archived,
+      revision: form.revision,
+      createdAt: form.createdAt,
+      updatedAt: Date.now(),
+    };
+    history.set(restoredForm);
+    saveForm(restoredForm);
+    historyPanel.onClose();
+    toast({
+      title: `Restored revision ${snapshot.revision}`,
+      status: 'success',
+      duration: 3000,
+      isClosable: true,
+    });
+  };
+
+  const handleAddQuestion = () => {
     if (!form) return;
 
     const newQuestion: Question = {
       id: uuidv4(),
       type: 'text',
       label: '',
+      pageId: form.pages?.[form.pages.length - 1]?.id,
       validation: {
         required: false,
       },
     };
 
-    try {
-      const savedQuestion = await formService.saveQuestion(form.id, newQuestion);
-      const updatedForm = {
-        ...form,
-        questions: [...form.questions, savedQuestion],
-        updatedAt: Date.now(),
-      };
-      setForm(updatedForm);
-      onSave?.(updatedForm);
-      setExpandedQuestionId(savedQuestion.id);
-    } catch (error) {
-      toast({
-        title: 'Failed to add question',
-        description: error instanceof Error ? error.message : 'Unknown error',
-        status: 'error',
-        duration: 5000,
-        isClosable: true,
-      });
-    }
+    history.set({ ...form, questions: [...form.questions, newQuestion], updatedAt: Date.now() });
+    setExpandedQuestionId(newQuestion.id);
+
+    sync.enqueue({ kind: 'question', formId: form.id, question: newQuestion });
   };
 
   const getValidQuestions = () => {
     if (!form) return [];
-    return form.questions.filter(isQuestionValid);
+    return form.questions.filter((q) => isQuestionValid(q, form.questions));
+  };
+
+  // Shows the page title above the first question of each page
+  const renderPageHeading = (index: number) => {
+    if (!form?.pages?.length) return null;
+
+    const pageIndex = (q: Question) =>
+      Math.max(0, form.pages!.findIndex((page) => page.id === q.pageId));
+    const current = pageIndex(form.questions[index]);
+    if (index > 0 && pageIndex(form.questions[index - 1]) === current) return null;
+
+    return (
+      <Text fontSize="sm" fontWeight="semibold" color="gray.600" textTransform="uppercase">
+        {form.pages[current].title || `Page ${current + 1}`}
+      </Text>
+    );
   };
 
   if (!form) {
@@ -184,12 +392,78 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
     );
   }
 
+  const missingTranslationCount = Object.keys(form.translations || {}).reduce(
+    (count, locale) => count + findMissingTranslations(form, locale).length,
+    0
+  );
+
   return (
     <Container maxW="container.lg" py={8}>
       <VStack spacing={6} align="stretch">
-        <Box position="relative">
+        <Box position="relative" minH={10}>
+          <HStack position="absolute" top={0} left={0} spacing={1}>
+            <Tooltip label="Undo (Ctrl+Z)">
+              <IconButton
+                aria-label="Undo"
+                icon={<FaUndo />}
+                size="sm"
+                variant="ghost"
+                isDisabled={!history.canUndo}
+                onClick={handleUndo}
+              />
+            </Tooltip>
+            <Tooltip label="Redo (Ctrl+Shift+Z)">
+              <IconButton
+                aria-label="Redo"
+                icon={<FaRedo />}
+                size="sm"
+                variant="ghost"
+                isDisabled={!history.canRedo}
+                onClick={handleRedo}
+              />
+            </Tooltip>
+            <Button
+              leftIcon={<FaHistory />}
+              size="sm"
+              variant="ghost"
+              onClick={historyPanel.onOpen}
+            >
+              History
+            </Button>
+            <Button
+              leftIcon={<FaPalette />}
+              size="sm"
+              variant="ghost"
+              onClick={themePanel.onOpen}
+            >
+              Theme
+            </Button>
+            <Button
+              leftIcon={<FaLanguage />}
+              size="sm"
+              variant="ghost"
+              onClick={translationPanel.onOpen}
+            >
+              Translations
+              {missingTranslationCount > 0 && (
+                <Tooltip label="Texts without a translation">
+                  <Badge ml={2} colorScheme="orange">
+                    {missingTranslationCount}
+                  </Badge>
+                </Tooltip>
+              )}
+            </Button>
+            <Button
+              leftIcon={<FaLink />}
+              size="sm"
+              variant="ghost"
+              onClick={prefillPanel.onOpen}
+            >
+              Prefill link
+            </Button>
+          </HStack>
           <HStack position="absolute" top={2} right={2} spacing={2}>
-            {isSaving && (
+            {sync.status === 'saving' && (
               <>
                 <Spinner size="sm" />
                 <Text fontSize="sm" color="gray.500">
@@ -197,7 +471,29 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
                 </Text>
               </>
             )}
-            {!isSaving && lastSaved && (
+            {sync.status === 'offline' && (
+              <Text fontSize="sm" color="gray.500">
+                Offline
+              </Text>
+            )}
+            {sync.status === 'failed' && (
+              <>
+                <Tooltip label={sync.error}>
+                  <Text fontSize="sm" color="red.500">
+                    Sync failed
+                  </Text>
+                </Tooltip>
+                <Button size="xs" variant="outline" onClick={sync.retryNow}>
+                  Retry now
+                </Button>
+              </>
+            )}
+            {sync.pendingCount > 0 && sync.status !== 'idle' && (
+              <Text fontSize="sm" color="gray.500">
+                {sync.pendingCount === 1 ? '1 change pending' : `${sync.pendingCount} changes pending`}
+              </Text>
+            )}
+            {sync.status === 'idle' && lastSaved && (
               <Text fontSize="sm" color="gray.500">
                 Last saved: {lastSaved.toLocaleTimeString()}
               </Text>
@@ -205,21 +501,61 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
           </HStack>
         </Box>
 
+        <PageEditor pages={form.pages || []} onChange={handlePagesChange} />
+
         <VStack spacing={4} align="stretch">
-          {form.questions.map((question) => (
-            <QuestionBuilder
-              key={question.id}
-              formId={form.id}
-              question={question}
-              onUpdate={handleQuestionUpdate}
-              onDelete={() => handleQuestionDelete(question.id)}
-              isExpanded={expandedQuestionId === question.id}
-              onToggleExpand={() => 
-                setExpandedQuestionId(
-                  expandedQuestionId === question.id ? null : question.id
-                )
-              }
-            />
+          {form.questions.map((question, index) => (
+            <React.Fragment key={question.id}>
+              {renderPageHeading(index)}
+              <Box
+                data-question-card
+                opacity={draggedQuestionId === question.id ? 0.5 : 1}
+                {...getDropIndicatorProps(index)}
+                onDragOver={(e: React.DragEvent<HTMLDivElement>) => {
+                  if (!draggedQuestionId) return;
+                  e.preventDefault();
+                  setDropTargetIndex(index);
+                }}
+                onDrop={(e: React.DragEvent<HTMLDivElement>) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                }}
+              >
+                <QuestionBuilder
+                  question={question}
+                  pages={form.pages || []}
+                  precedingQuestions={form.questions.slice(0, index)}
+                  formQuestions={form.questions}
+                  onUpdate={handleQuestionUpdate}
+                  onSave={(updatedQuestion) => handleQuestionSave(form.id, updatedQuestion)}
+                  onDelete={() => handleQuestionDelete(question.id)}
+                  isExpanded={expandedQuestionId === question.id}
+                  onToggleExpand={() => 
+                    setExpandedQuestionId(
+                      expandedQuestionId === question.id ? null : question.id
+                    )
+                  }
+                  onMoveUp={index > 0 ? () => handleQuestionMove(question.id, index - 1) : undefined}
+                  onMoveDown={
+                    index < form.questions.length - 1
+                      ? () => handleQuestionMove(question.id, index + 1)
+                      : undefined
+                  }
+                  dragHandleProps={{
+                    draggable: true,
+                    onDragStart: (e: React.DragEvent<HTMLButtonElement>) => {
+                      const card = e.currentTarget.closest('[data-question-card]');
+                      if (card) {
+                        e.dataTransfer.setDragImage(card, 20, 20);
+                      }
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedQuestionId(question.id);
+                    },
+                    onDragEnd: handleDragEnd,
+                  }}
+                />
+              </Box>
+            </React.Fragment>
           ))}
         </VStack>
 
@@ -233,6 +569,101 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
           </Text>
         )}
       </VStack>
+
+      <Drawer isOpen={historyPanel.isOpen} onClose={historyPanel.onClose} size="md">
+        <DrawerOverlay />
+        <DrawerContent>
+          <DrawerCloseButton />
+          <DrawerHeader>Revision history</DrawerHeader>
+          <DrawerBody>
+            {historyPanel.isOpen && (
+              <FormHistory
+                formId={form.id}
+                currentRevision={form.revision}
+                onRestore={handleRestoreRevision}
+              />
+            )}
+          </DrawerBody>
+        </DrawerContent>
+      </Drawer>
+
+      <Drawer isOpen={themePanel.isOpen} onClose={themePanel.onClose} size="xl">
+        <DrawerOverlay />
+        <DrawerContent>
+          <DrawerCloseButton />
+          <DrawerHeader>Theme</DrawerHeader>
+          <DrawerBody>
+            <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+              <ThemeEditor theme={form.theme} onChange={handleThemeChange} />
+              <Box>
+                <Text fontSize="sm" color="gray.500" mb={2}>
+                  Preview (answers are not saved)
+                </Text>
+                <Box borderWidth="1px" borderRadius="lg" overflow="hidden">
+                  <FormRenderer
+                    form={{ ...form, questions: getValidQuestions() }}
+                    onSubmit={() => undefined}
+                  />
+                </Box>
+              </Box>
+            </SimpleGrid>
+          </DrawerBody>
+        </DrawerContent>
+      </Drawer>
+
+      <Drawer isOpen={translationPanel.isOpen} onClose={translationPanel.onClose} size="lg">
+        <DrawerOverlay />
+        <DrawerContent>
+          <DrawerCloseButton />
+          <DrawerHeader>Translations</DrawerHeader>
+          <DrawerBody>
+            <TranslationEditor form={form} onChange={handleTranslationsChange} />
+          </DrawerBody>
+        </DrawerContent>
+      </Drawer>
+
+      <Drawer isOpen={prefillPanel.isOpen} onClose={prefillPanel.onClose} size="md">
+        <DrawerOverlay />
+        <DrawerContent>
+          <DrawerCloseButton />
+          <DrawerHeader>Prefilled link</DrawerHeader>
+          <DrawerBody>
+            <PrefillLinkEditor
+              form={{ ...form, questions: getValidQuestions() }}
+              baseUrl={window.location.href}
+            />
+          </DrawerBody>
+        </DrawerContent>
+      </Drawer>
+
+      <AlertDialog
+        isOpen={!!conflict}
+        leastDestructiveRef={conflictCancelRef}
+        onClose={handleLoadLatest}
+        closeOnOverlayClick={false}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              This form was changed elsewhere
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              Revision {conflict?.revision} was saved
+              {conflict && ` at ${new Date(conflict.updatedAt).toLocaleTimeString()}`} while you
+              were editing, so your latest changes were not saved. Load that version and drop your
+              changes, or keep your version and save it over the other one.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={conflictCancelRef} onClick={handleLoadLatest}>
+                Load latest version
+              </Button>
+              <Button colorScheme="orange" onClick={handleKeepMine} ml={3}>
+                Keep my version
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
     </Container>
   );
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Input,
+  Select,
+  VStack,
+} from '@chakra-ui/react';
+import { Question } from '../../types/form';
+import { FORMULA_FUNCTIONS } from '../../logic/formula';
+
+interface FormulaEditorProps {
+  formula: string;
+  decimals?: number;
+  error?: string;
+  // Questions the formula may refer to
+  sourceQuestions: Question[];
+  onFormulaChange: (formula: string) => void;
+  onDecimalsChange: (decimals: number | undefined) => void;
+}
+
+// Labels are friendlier, but only an id is unambiguous when labels repeat or contain braces
+const referenceFor = (question: Question, questions: Question[]) => {
+  const label = question.label.trim();
+  const isUnique =
+    questions.filter((q) => q.label.trim().toLowerCase() === label.toLowerCase()).length === 1;
+  return label && isUnique && !/[{}]/.test(label) ? `{${label}}` : `{${question.id}}`;
+};
+
+export const FormulaEditor: React.FC<FormulaEditorProps> = ({
+  formula,
+  decimals,
+  error,
+  sourceQuestions,
+  onFormulaChange,
+  onDecimalsChange,
+}) => {
+  const handleInsert = (questionId: string) => {
+    const question = sourceQuestions.find((q) => q.id === questionId);
+    if (!question) return;
+
+    const reference = referenceFor(question, sourceQuestions);
+    onFormulaChange(formula.trim() ? `${formula.trimEnd()} ${reference}` : reference);
+  };
+
+  return (
+    <VStack spacing={3} align="stretch">
+      <FormControl isInvalid={!!error}>
+        <FormLabel>Formula</FormLabel>
+        <Input
+          value={formula}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onFormulaChange(e.target.value)}
+          placeholder="e.g. {Price} * {Quantity}"
+          fontFamily="mono"
+        />
+        {error ? (
+          <FormErrorMessage>{error}</FormErrorMessage>
+        ) : (
+          <FormHelperText>
+            Refer to questions as {'{Label}'} or {'{id}'}. Use + - * / % ^, parentheses and{' '}
+            {FORMULA_FUNCTIONS.map((name) => `${name}()`).join(', ')}.
+          </FormHelperText>
+        )}
+      </FormControl>
+
+      <HStack spacing={4} align="flex-end">
+        <FormControl>
+          <FormLabel>Insert question</FormLabel>
+          <Select
+            value=""
+            placeholder="Choose a question"
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleInsert(e.target.value)}
+          >
+            {sourceQuestions.map((question) => (
+              <option key={question.id} value={question.id}>
+                {question.label || 'Untitled question'}
+              </option>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl maxW="180px">
+          <FormLabel>Decimal places</FormLabel>
+          <Input
+            type="number"
+            min={0}
+            max={10}
+            value={decimals ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onDecimalsChange(e.target.value ? parseInt(e.target.value) : undefined)
+            }
+            placeholder="Unrounded"
+          />
+        </FormControl>
+      </HStack>
+    </VStack>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  Switch,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { FaArrowDown, FaArrowUp, FaPlus, FaTrash } from 'react-icons/fa';
+import { nanoid } from 'nanoid';
+import { QuestionOption } from '../../types/form';
+
+interface OptionEditorProps {
+  options: QuestionOption[];
+  onChange: (options: QuestionOption[]) => void;
+  // The "Other" switch is only offered when this is given
+  allowOther?: boolean;
+  onAllowOtherChange?: (allowOther: boolean) => void;
+  // What one entry is called, e.g. "Row" for the rows of a matrix
+  itemName?: string;
+}
+
+export const OptionEditor: React.FC<OptionEditorProps> = ({
+  options,
+  onChange,
+  allowOther = false,
+  onAllowOtherChange,
+  itemName = 'Option',
+}) => {
+  const itemNameLower = itemName.toLowerCase();
+
+  const handleLabelChange = (id: string, label: string) => {
+    onChange(options.map((option) => (option.id === id ? { ...option, label } : option)));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= options.length) return;
+
+    const reordered = [...options];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const handleAdd = () => {
+    onChange([...options, { id: nanoid(), label: `${itemName} ${options.length + 1}` }]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(options.filter((option) => option.id !== id));
+  };
+
+  return (
+    <VStack spacing={2} align="stretch">
+      <FormLabel mb={0}>{itemName}s</FormLabel>
+      {options.length === 0 && (
+        <Text color="red.500" fontSize="sm">
+          Add at least one {itemNameLower}
+        </Text>
+      )}
+      {options.map((option, index) => (
+        <HStack key={option.id} spacing={2}>
+          <Input
+            size="sm"
+            value={option.label}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              handleLabelChange(option.id, e.target.value)
+            }
+            placeholder={`${itemName} ${index + 1}`}
+            isInvalid={!option.label.trim()}
+          />
+          <IconButton
+            aria-label={`Move ${itemNameLower} up`}
+            icon={<FaArrowUp />}
+            size="sm"
+            variant="ghost"
+            isDisabled={index === 0}
+            onClick={() => handleMove(index, -1)}
+          />
+          <IconButton
+            aria-label={`Move ${itemNameLower} down`}
+            icon={<FaArrowDown />}
+            size="sm"
+            variant="ghost"
+            isDisabled={index === options.length - 1}
+            onClick={() => handleMove(index, 1)}
+          />
+          <IconButton
+            aria-label={`Remove ${itemNameLower}`}
+            icon={<FaTrash />}
+            size="sm"
+            colorScheme="red"
+            variant="ghost"
+            onClick={() => handleRemove(option.id)}
+          />
+        </HStack>
+      ))}
+      <HStack justify="space-between">
+        <Button size="sm" leftIcon={<FaPlus />} variant="outline" onClick={handleAdd}>
+          Add {itemName}
+        </Button>
+        {onAllowOtherChange && (
+          <FormControl display="flex" alignItems="center" justifyContent="flex-end" w="auto" mb={0}>
+            <FormLabel mb="0" fontSize="sm">
+              Allow "Other" with free text
+            </FormLabel>
+            <Switch
+              isChecked={allowOther}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                onAllowOtherChange(e.target.checked)
+              }
+            />
+          </FormControl>
+        )}
+      </HStack>
+    </VStack>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Text,
+  Textarea,
+  VStack,
+} from '@chakra-ui/react';
+import { FaArrowDown, FaArrowUp, FaPlus, FaTrash } from 'react-icons/fa';
+import { nanoid } from 'nanoid';
+import { FormPage } from '../../types/form';
+
+interface PageEditorProps {
+  pages: FormPage[];
+  onChange: (pages: FormPage[]) => void;
+}
+
+export const PageEditor: React.FC<PageEditorProps> = ({ pages, onChange }) => {
+  const handlePageChange = (id: string, changes: Partial<FormPage>) => {
+    onChange(pages.map((page) => (page.id === id ? { ...page, ...changes } : page)));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pages.length) return;
+
+    const reordered = [...pages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const handleAdd = () => {
+    // The first split turns the whole form into page 1 and adds page 2
+    const existing = pages.length ? pages : [{ id: nanoid(), title: 'Page 1' }];
+    onChange([...existing, { id: nanoid(), title: `Page ${existing.length + 1}` }]);
+  };
+
+  return (
+    <Box p={4} borderWidth="1px" borderRadius="lg" bg="white" shadow="sm">
+      <VStack spacing={3} align="stretch">
+        <HStack justify="space-between">
+          <Text fontWeight="semibold">Pages</Text>
+          <Button size="sm" leftIcon={<FaPlus />} variant="outline" onClick={handleAdd}>
+            Add Page
+          </Button>
+        </HStack>
+
+        {pages.length === 0 && (
+          <Text fontSize="sm" color="gray.500">
+            All questions are shown on a single page.
+          </Text>
+        )}
+
+        {pages.map((page, index) => (
+          <HStack key={page.id} spacing={2} align="flex-start">
+            <Text fontSize="sm" color="gray.500" pt={2} minW="20px">
+              {index + 1}.
+            </Text>
+            <VStack spacing={2} align="stretch" flex={1}>
+              <Input
+                size="sm"
+                value={page.title}
+                placeholder="Page title"
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  handlePageChange(page.id, { title: e.target.value })
+                }
+              />
+              <Textarea
+                size="sm"
+                rows={2}
+                value={page.description || ''}
+                placeholder="Page description (optional)"
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                  handlePageChange(page.id, { description: e.target.value || undefined })
+                }
+              />
+            </VStack>
+            <IconButton
+              aria-label="Move page up"
+              icon={<FaArrowUp />}
+              size="sm"
+              variant="ghost"
+              isDisabled={index === 0}
+              onClick={() => handleMove(index, -1)}
+            />
+            <IconButton
+              aria-label="Move page down"
+              icon={<FaArrowDown />}
+              size="sm"
+              variant="ghost"
+              isDisabled={index === pages.length - 1}
+              onClick={() => handleMove(index, 1)}
+            />
+            <IconButton
+              aria-label="Delete page"
+              icon={<FaTrash />}
+              size="sm"
+              colorScheme="red"
+              variant="ghost"
+              onClick={() => onChange(pages.filter((p) => p.id !== page.id))}
+            />
+          </HStack>
+        ))}
+      </VStack>
+    </Box>
+  );
+};
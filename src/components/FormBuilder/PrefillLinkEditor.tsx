@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Input,
+  Select,
+  Stack,
+  Text,
+  VStack,
+  useClipboard,
+} from '@chakra-ui/react';
+import { FaCopy } from 'react-icons/fa';
+import { Form, FormValues, Question } from '../../types/form';
+import {
+  createFormLink,
+  createPrefillUrl,
+  getPrefillKey,
+  isPrefillable,
+} from '../../logic/prefill';
+import { getScalePoints } from '../../logic/scales';
+
+interface PrefillLinkEditorProps {
+  form: Form;
+  // Address of the app; the link opens the form's preview there
+  baseUrl: string;
+}
+
+export const PrefillLinkEditor: React.FC<PrefillLinkEditorProps> = ({ form, baseUrl }) => {
+  const [values, setValues] = useState<FormValues>({});
+  const questions = form.questions.filter(isPrefillable);
+  const link = createPrefillUrl(createFormLink(form.id, baseUrl), questions, values);
+  const { hasCopied, onCopy } = useClipboard(link);
+
+  const setValue = (questionId: string, value: string | string[]) =>
+    setValues((previous) => ({ ...previous, [questionId]: value }));
+
+  const renderInput = (question: Question) => {
+    const value = values[question.id];
+    const options = question.options || [];
+
+    switch (question.type) {
+      case 'select':
+      case 'radio':
+        return (
+          <Select
+            placeholder="Not prefilled"
+            value={(value as string) ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setValue(question.id, e.target.value)}
+          >
+            {options.map((option) => (
+              <option key={option.id} value={option.label}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+        );
+      case 'rating':
+      case 'scale':
+        return (
+          <Select
+            placeholder="Not prefilled"
+            value={(value as string) ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setValue(question.id, e.target.value)}
+          >
+            {getScalePoints(question).map((point) => (
+              <option key={point} value={point}>
+                {point}
+              </option>
+            ))}
+          </Select>
+        );
+      case 'checkbox':
+        return (
+          <CheckboxGroup
+            value={(value as string[]) ?? []}
+            onChange={(selected: string[]) => setValue(question.id, selected)}
+          >
+            <Stack spacing={1}>
+              {options.map((option) => (
+                <Checkbox key={option.id} value={option.label}>
+                  {option.label}
+                </Checkbox>
+              ))}
+            </Stack>
+          </CheckboxGroup>
+        );
+      default:
+        return (
+          <Input
+            type={question.type === 'number' ? 'number' : 'text'}
+            value={(value as string) ?? ''}
+            placeholder={question.type === 'hidden' && question.value ? String(question.value) : undefined}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setValue(question.id, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <VStack spacing={5} align="stretch">
+      <VStack spacing={2} align="stretch">
+        <Text fontSize="sm" color="gray.600">
+          Respondents who open this link start with these answers and can still change them.
+          Hidden questions record the value without showing it.
+        </Text>
+        <HStack spacing={2}>
+          <Input value={link} isReadOnly fontFamily="mono" fontSize="sm" aria-label="Prefilled link" />
+          <Button leftIcon={<FaCopy />} flexShrink={0} onClick={onCopy}>
+            {hasCopied ? 'Copied' : 'Copy'}
+          </Button>
+        </HStack>
+        <HStack justify="flex-end">
+          <Button size="sm" variant="ghost" onClick={() => setValues({})}>
+            Clear answers
+          </Button>
+        </HStack>
+      </VStack>
+
+      {questions.length === 0 ? (
+        <Text color="gray.500">Add a question to prefill it.</Text>
+      ) : (
+        questions.map((question) => (
+          <FormControl key={question.id} as={question.type === 'checkbox' ? 'fieldset' : undefined}>
+            {question.type === 'checkbox' ? (
+              <Text as="legend" fontWeight="medium" mb={2}>
+                {question.label}
+              </Text>
+            ) : (
+              <FormLabel>{question.label}</FormLabel>
+            )}
+            {renderInput(question)}
+            <FormHelperText fontFamily="mono">?{getPrefillKey(question)}=</FormHelperText>
+          </FormControl>
+        ))
+      )}
+    </VStack>
+  );
+};
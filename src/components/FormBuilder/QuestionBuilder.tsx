@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import {
   Box,
   FormControl,
+  FormErrorMessage,
+  FormHelperText,
   FormLabel,
   Input,
   Select,
@@ -14,17 +16,57 @@ import {
   Divider,
   Collapse,
 } from '@chakra-ui/react';
-import { Question, QuestionType, ValidationRule } from '../../types/form';
+import { nanoid } from 'nanoid';
+import {
+  CHOICE_QUESTION_TYPES,
+  FormPage,
+  Question,
+  QuestionOption,
+  QuestionType,
+  ScaleSettings,
+  ValidationRule,
+  VisibilityRule,
+} from '../../types/form';
 import { useAutoSave } from '../../hooks/useAutoSave';
-import { FaTrash, FaChevronDown, FaChevronUp } from 'react-icons/fa';
+import {
+  FaTrash,
+  FaChevronDown,
+  FaChevronUp,
+  FaArrowUp,
+  FaArrowDown,
+  FaGripVertical,
+} from 'react-icons/fa';
+import { OptionEditor } from './OptionEditor';
+import { VisibilityRuleEditor } from './VisibilityRuleEditor';
+import { FormulaEditor } from './FormulaEditor';
+import { FileRulesEditor } from './FileRulesEditor';
+import { ScaleEditor } from './ScaleEditor';
+import {
+  validateAlias,
+  validateFileRules,
+  validateFormula,
+  validateMatrix,
+  validateScale,
+} from '../../validation/questionDefinition';
+import { isPrefillable } from '../../logic/prefill';
+import { DEFAULT_RATING_STARS, DEFAULT_SCALE } from '../../logic/scales';
+
+// A fresh matrix starts as an agreement (Likert) scale
+const LIKERT_COLUMNS = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
 
 interface QuestionBuilderProps {
-  formId: string;
   question: Question;
+  pages: FormPage[];
+  precedingQuestions: Question[];
+  formQuestions: Question[];
   onUpdate: (updatedQuestion: Question) => void;
+  onSave: (question: Question) => Promise<void>;
   onDelete: () => void;
   isExpanded: boolean;
   onToggleExpand: () => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  dragHandleProps?: React.HTMLAttributes<HTMLButtonElement> & { draggable?: boolean };
 }
 
 const validateQuestionType = (type: QuestionType): { isValid: boolean; error?: string } => {
@@ -35,12 +77,18 @@ const validateQuestionType = (type: QuestionType): { isValid: boolean; error?: s
 };
 
 export const QuestionBuilder: React.FC<QuestionBuilderProps> = ({
-  formId,
   question,
+  pages,
+  precedingQuestions,
+  formQuestions,
   onUpdate,
+  onSave,
   onDelete,
   isExpanded,
   onToggleExpand,
+  onMoveUp,
+  onMoveDown,
+  dragHandleProps,
 }) => {
   const [localQuestion, setLocalQuestion] = useState<Question>({
     ...question,
@@ -73,19 +121,57 @@ export const QuestionBuilder: React.FC<QuestionBuilderProps> = ({
   }, []);
 
   const { isSaving, error, debouncedSave } = useAutoSave({
-    formId,
     onUpdate,
+    onSave,
+    questions: formQuestions,
     debounceMs: 2000,
   });
 
   const handleChange = (
     field: keyof Question,
-    value: string | boolean | number | QuestionType | undefined
+    value:
+      | string
+      | boolean
+      | number
+      | QuestionType
+      | QuestionOption[]
+      | ScaleSettings
+      | VisibilityRule
+      | undefined
   ) => {
     const updatedQuestion = {
       ...localQuestion,
       [field]: value,
     };
+
+    // Seed a fresh choice question with a couple of options to edit
+    if (
+      field === 'type' &&
+      CHOICE_QUESTION_TYPES.includes(value as QuestionType) &&
+      !updatedQuestion.options?.length
+    ) {
+      updatedQuestion.options = [
+        { id: nanoid(), label: 'Option 1' },
+        { id: nanoid(), label: 'Option 2' },
+      ];
+    }
+    if (field === 'type' && value === 'rating' && !updatedQuestion.scale) {
+      updatedQuestion.scale = { min: 1, max: DEFAULT_RATING_STARS };
+    }
+    if (field === 'type' && value === 'scale' && !updatedQuestion.scale) {
+      updatedQuestion.scale = DEFAULT_SCALE;
+    }
+    if (field === 'type' && value === 'matrix') {
+      if (!updatedQuestion.rows?.length) {
+        updatedQuestion.rows = [
+          { id: nanoid(), label: 'Row 1' },
+          { id: nanoid(), label: 'Row 2' },
+        ];
+      }
+      if (!updatedQuestion.options?.length) {
+        updatedQuestion.options = LIKERT_COLUMNS.map((label) => ({ id: nanoid(), label }));
+      }
+    }
     setLocalQuestion(updatedQuestion);
 
     // Clear any existing timeout
@@ -123,7 +209,7 @@ export const QuestionBuilder: React.FC<QuestionBuilderProps> = ({
 
   const handleValidationChange = (
     field: keyof ValidationRule,
-    value: string | boolean | number | undefined
+    value: string | string[] | boolean | number | undefined
   ) => {
     const updatedQuestion = {
       ...localQuestion,
@@ -145,6 +231,13 @@ export const QuestionBuilder: React.FC<QuestionBuilderProps> = ({
     }, 500);
   };
 
+  const aliasError = validateAlias(localQuestion, formQuestions).error;
+  // The row and column editors already flag empty lists
+  const matrixError =
+    localQuestion.type === 'matrix' && localQuestion.rows?.length && localQuestion.options?.length
+      ? validateMatrix(localQuestion).error
+      : undefined;
+
   return (
     <Box
       p={6}
@@ -182,6 +275,15 @@ export const QuestionBuilder: React.FC<QuestionBuilderProps> = ({
             >
               <option value="text">Text</option>
               <option value="number">Number</option>
+              <option value="select">Dropdown</option>
+              <option value="radio">Multiple Choice</option>
+              <option value="checkbox">Checkboxes</option>
+              <option value="calculated">Calculated</option>
+              <option value="hidden">Hidden</option>
+              <option value="file">File Upload</option>
+              <option value="rating">Rating</option>
+              <option value="scale">Linear Scale</option>
+              <option value="matrix">Matrix</option>
             </Select>
             {typeError && (
               <Text color="red.500" fontSize="sm" mt={1}>
@@ -192,6 +294,38 @@ export const QuestionBuilder: React.FC<QuestionBuilderProps> = ({
 
           <Box pt={8}>
             <HStack spacing={2}>
+              {dragHandleProps && (
+                <IconButton
+                  aria-label="Drag to reorder, or use the arrow keys"
+                  icon={<FaGripVertical />}
+                  variant="ghost"
+                  cursor="grab"
+                  onKeyDown={(e: React.KeyboardEvent<HTMLButtonElement>) => {
+                    if (e.key === 'ArrowUp' && onMoveUp) {
+                      e.preventDefault();
+                      onMoveUp();
+                    } else if (e.key === 'ArrowDown' && onMoveDown) {
+                      e.preventDefault();
+                      onMoveDown();
+                    }
+                  }}
+                  {...dragHandleProps}
+                />
+              )}
+              <IconButton
+                aria-label="Move question up"
+                icon={<FaArrowUp />}
+                variant="ghost"
+                isDisabled={!onMoveUp}
+                onClick={onMoveUp}
+              />
+              <IconButton
+                aria-label="Move question down"
+                icon={<FaArrowDown />}
+                variant="ghost"
+                isDisabled={!onMoveDown}
+                onClick={onMoveDown}
+              />
               <IconButton
                 aria-label={isExpanded ? "Collapse question" : "Expand question"}
                 icon={isExpanded ? <FaChevronUp /> : <FaChevronDown />}
@@ -228,66 +362,288 @@ export const QuestionBuilder: React.FC<QuestionBuilderProps> = ({
             }}
           >
             <VStack spacing={4} align="stretch" mt={4}>
-              <FormControl>
-                <FormLabel>Help Text</FormLabel>
-                <Input
-                  value={localQuestion.placeholder || ''}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    handleChange('placeholder', e.target.value)
-                  }
-                  placeholder="Enter help text or placeholder"
+              {localQuestion.type === 'hidden' ? (
+                <FormControl>
+                  <FormLabel>Default Value</FormLabel>
+                  <Input
+                    value={localQuestion.value !== undefined ? String(localQuestion.value) : ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      handleChange('value', e.target.value || undefined)
+                    }
+                    placeholder="Submitted when the link doesn't set a value"
+                  />
+                  <FormHelperText>
+                    Hidden questions are not shown to respondents; they record a value from the
+                    link, such as a campaign source.
+                  </FormHelperText>
+                </FormControl>
+              ) : (
+                <FormControl>
+                  <FormLabel>Help Text</FormLabel>
+                  <Input
+                    value={localQuestion.placeholder || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      handleChange('placeholder', e.target.value)
+                    }
+                    placeholder="Enter help text or placeholder"
+                  />
+                </FormControl>
+              )}
+
+              {isPrefillable(localQuestion) && (
+                <FormControl isInvalid={!!aliasError}>
+                  <FormLabel>URL Parameter</FormLabel>
+                  <Input
+                    value={localQuestion.alias || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      handleChange('alias', e.target.value.trim() || undefined)
+                    }
+                    placeholder={localQuestion.id}
+                    fontFamily="mono"
+                  />
+                  {aliasError ? (
+                    <FormErrorMessage>{aliasError}</FormErrorMessage>
+                  ) : (
+                    <FormHelperText>
+                      Links with ?{localQuestion.alias || localQuestion.id}=… prefill this answer
+                    </FormHelperText>
+                  )}
+                </FormControl>
+              )}
+
+              {pages.length > 1 && (
+                <FormControl>
+                  <FormLabel>Page</FormLabel>
+                  <Select
+                    value={localQuestion.pageId || pages[0].id}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                      handleChange('pageId', e.target.value)
+                    }
+                  >
+                    {pages.map((page, index) => (
+                      <option key={page.id} value={page.id}>
+                        {page.title || `Page ${index + 1}`}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+
+              {CHOICE_QUESTION_TYPES.includes(localQuestion.type) && (
+                <OptionEditor
+                  options={localQuestion.options || []}
+                  allowOther={localQuestion.allowOther || false}
+                  onChange={(options) => handleChange('options', options)}
+                  onAllowOtherChange={(allowOther) => handleChange('allowOther', allowOther)}
                 />
-              </FormControl>
+              )}
 
-              <Divider my={2} />
+              {(localQuestion.type === 'rating' || localQuestion.type === 'scale') && (
+                <ScaleEditor
+                  variant={localQuestion.type}
+                  scale={localQuestion.scale}
+                  error={validateScale(localQuestion).error}
+                  onChange={(scale) => handleChange('scale', scale)}
+                />
+              )}
 
-              <VStack spacing={3} align="stretch">
-                <HStack spacing={6}>
-                  <FormControl display="flex" alignItems="center">
-                    <FormLabel mb="0">Required Field</FormLabel>
-                    <Switch
-                      isChecked={localQuestion.validation?.required || false}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        handleValidationChange('required', e.target.checked)
-                      }
-                    />
-                  </FormControl>
-                </HStack>
-
-                {localQuestion.type === 'number' && (
-                  <>
-                    <FormControl>
-                      <FormLabel>Minimum Value</FormLabel>
-                      <Input
-                        type="number"
-                        value={localQuestion.validation?.min || ''}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          handleValidationChange(
-                            'min',
-                            e.target.value ? parseInt(e.target.value) : undefined
-                          )
-                        }
-                        placeholder="Enter minimum value"
+              {localQuestion.type === 'matrix' && (
+                <>
+                  {matrixError && (
+                    <Text color="red.500" fontSize="sm">
+                      {matrixError}
+                    </Text>
+                  )}
+                  <OptionEditor
+                    itemName="Row"
+                    options={localQuestion.rows || []}
+                    onChange={(rows) => handleChange('rows', rows)}
+                  />
+                  <OptionEditor
+                    itemName="Column"
+                    options={localQuestion.options || []}
+                    onChange={(options) => handleChange('options', options)}
+                  />
+                </>
+              )}
+
+              {localQuestion.type === 'calculated' && (
+                <FormulaEditor
+                  formula={localQuestion.formula || ''}
+                  decimals={localQuestion.decimals}
+                  error={validateFormula(localQuestion, formQuestions).error}
+                  sourceQuestions={formQuestions.filter((q) => q.id !== localQuestion.id)}
+                  onFormulaChange={(formula) => handleChange('formula', formula)}
+                  onDecimalsChange={(decimals) => handleChange('decimals', decimals)}
+                />
+              )}
+
+              {localQuestion.type !== 'hidden' && (
+                <>
+                  <Divider my={2} />
+
+                  <VStack spacing={3} align="stretch">
+                    <HStack spacing={6}>
+                      <FormControl display="flex" alignItems="center">
+                        <FormLabel mb="0">Required Field</FormLabel>
+                        <Switch
+                          isChecked={localQuestion.validation?.required || false}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            handleValidationChange('required', e.target.checked)
+                          }
+                        />
+                      </FormControl>
+                    </HStack>
+
+                    {localQuestion.type === 'text' && (
+                      <>
+                        <HStack spacing={4}>
+                          <FormControl>
+                            <FormLabel>Minimum Length</FormLabel>
+                            <Input
+                              type="number"
+                              min={0}
+                              value={localQuestion.validation?.minLength ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                handleValidationChange(
+                                  'minLength',
+                                  e.target.value ? parseInt(e.target.value) : undefined
+                                )
+                              }
+                              placeholder="No minimum"
+                            />
+                          </FormControl>
+
+                          <FormControl>
+                            <FormLabel>Maximum Length</FormLabel>
+                            <Input
+                              type="number"
+                              min={0}
+                              value={localQuestion.validation?.maxLength ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                handleValidationChange(
+                                  'maxLength',
+                                  e.target.value ? parseInt(e.target.value) : undefined
+                                )
+                              }
+                              placeholder="No maximum"
+                            />
+                          </FormControl>
+                        </HStack>
+
+                        <FormControl>
+                          <FormLabel>Pattern</FormLabel>
+                          <Input
+                            value={localQuestion.validation?.pattern || ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              handleValidationChange('pattern', e.target.value || undefined)
+                            }
+                            placeholder="Regular expression, e.g. ^[A-Z]{3}$"
+                            fontFamily="mono"
+                          />
+                        </FormControl>
+                      </>
+                    )}
+
+                    {localQuestion.type === 'number' && (
+                      <>
+                        <FormControl>
+                          <FormLabel>Minimum Value</FormLabel>
+                          <Input
+                            type="number"
+                            value={localQuestion.validation?.min ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              handleValidationChange(
+                                'min',
+                                e.target.value ? parseInt(e.target.value) : undefined
+                              )
+                            }
+                            placeholder="Enter minimum value"
+                          />
+                        </FormControl>
+
+                        <FormControl>
+                          <FormLabel>Maximum Value</FormLabel>
+                          <Input
+                            type="number"
+                            value={localQuestion.validation?.max ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              handleValidationChange(
+                                'max',
+                                e.target.value ? parseInt(e.target.value) : undefined
+                              )
+                            }
+                            placeholder="Enter maximum value"
+                          />
+                        </FormControl>
+                      </>
+                    )}
+
+                    {localQuestion.type === 'file' && (
+                      <FileRulesEditor
+                        validation={localQuestion.validation}
+                        error={validateFileRules(localQuestion).error}
+                        onChange={handleValidationChange}
                       />
-                    </FormControl>
+                    )}
+
+                    {localQuestion.type === 'checkbox' && (
+                      <HStack spacing={4}>
+                        <FormControl>
+                          <FormLabel>Minimum Selections</FormLabel>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={localQuestion.validation?.minSelections ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              handleValidationChange(
+                                'minSelections',
+                                e.target.value ? parseInt(e.target.value) : undefined
+                              )
+                            }
+                            placeholder="No minimum"
+                          />
+                        </FormControl>
+
+                        <FormControl>
+                          <FormLabel>Maximum Selections</FormLabel>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={localQuestion.validation?.maxSelections ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              handleValidationChange(
+                                'maxSelections',
+                                e.target.value ? parseInt(e.target.value) : undefined
+                              )
+                            }
+                            placeholder="No maximum"
+                          />
+                        </FormControl>
+                      </HStack>
+                    )}
 
                     <FormControl>
-                      <FormLabel>Maximum Value</FormLabel>
+                      <FormLabel>Error Message</FormLabel>
                       <Input
-                        type="number"
-                        value={localQuestion.validation?.max || ''}
+                        value={localQuestion.validation?.message || ''}
                         onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          handleValidationChange(
-                            'max',
-                            e.target.value ? parseInt(e.target.value) : undefined
-                          )
+                          handleValidationChange('message', e.target.value || undefined)
                         }
-                        placeholder="Enter maximum value"
+                        placeholder="Built-in message, e.g. This field is required"
                       />
                     </FormControl>
-                  </>
-                )}
-              </VStack>
+                  </VStack>
+                </>
+              )}
+
+              <Divider my={2} />
+
+              <VisibilityRuleEditor
+                rule={localQuestion.visibility}
+                sourceQuestions={precedingQuestions}
+                onChange={(rule) => handleChange('visibility', rule)}
+              />
             </VStack>
           </Box>
         </Collapse>
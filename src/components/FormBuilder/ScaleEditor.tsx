@@ -0,0 +1,133 @@
+import React from 'react';
+import {
+  FormControl,
+  FormErrorMessage,
+  FormLabel,
+  HStack,
+  Input,
+  Select,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { ScaleSettings } from '../../types/form';
+import {
+  DEFAULT_RATING_STARS,
+  DEFAULT_SCALE,
+  MAX_RATING_STARS,
+  MAX_SCALE_POINTS,
+} from '../../logic/scales';
+
+interface ScaleEditorProps {
+  // Ratings only pick a number of stars
+  variant: 'rating' | 'scale';
+  scale?: ScaleSettings;
+  error?: string;
+  onChange: (scale: ScaleSettings) => void;
+}
+
+const range = (from: number, to: number) =>
+  Array.from({ length: Math.max(0, to - from + 1) }, (_, index) => from + index);
+
+export const ScaleEditor: React.FC<ScaleEditorProps> = ({ variant, scale, error, onChange }) => {
+  const current = scale || (variant === 'rating' ? { min: 1, max: DEFAULT_RATING_STARS } : DEFAULT_SCALE);
+
+  const update = (changes: Partial<ScaleSettings>) => {
+    const next = { ...current, ...changes };
+    // Blank labels are dropped so they don't show up as texts to translate
+    onChange({
+      min: next.min,
+      max: next.max,
+      ...(next.minLabel?.trim() ? { minLabel: next.minLabel } : {}),
+      ...(next.maxLabel?.trim() ? { maxLabel: next.maxLabel } : {}),
+    });
+  };
+
+  // Scales start at 0 or 1; imported forms may start elsewhere
+  const startOptions = [...new Set([0, 1, current.min])].sort((a, b) => a - b);
+
+  if (variant === 'rating') {
+    return (
+      <FormControl isInvalid={!!error} maxW="200px">
+        <FormLabel>Number of Stars</FormLabel>
+        <Select
+          value={current.max}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+            update({ min: 1, max: parseInt(e.target.value) })
+          }
+        >
+          {range(2, MAX_RATING_STARS).map((count) => (
+            <option key={count} value={count}>
+              {count}
+            </option>
+          ))}
+        </Select>
+        <FormErrorMessage>{error}</FormErrorMessage>
+      </FormControl>
+    );
+  }
+
+  return (
+    <VStack spacing={3} align="stretch">
+      <HStack spacing={4} align="flex-end">
+        <FormControl isInvalid={!!error}>
+          <FormLabel>From</FormLabel>
+          <Select
+            value={current.min}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+              const min = parseInt(e.target.value);
+              // Keep the end within reach of the new start
+              const max = Math.min(Math.max(current.max, min + 1), min + MAX_SCALE_POINTS - 1);
+              update({ min, max });
+            }}
+          >
+            {startOptions.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </Select>
+        </FormControl>
+        <Text pb={2}>to</Text>
+        <FormControl isInvalid={!!error}>
+          <FormLabel>To</FormLabel>
+          <Select
+            value={current.max}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+              update({ max: parseInt(e.target.value) })
+            }
+          >
+            {range(current.min + 1, current.min + MAX_SCALE_POINTS - 1).map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </Select>
+        </FormControl>
+      </HStack>
+      {error && (
+        <Text color="red.500" fontSize="sm">
+          {error}
+        </Text>
+      )}
+
+      <HStack spacing={4}>
+        <FormControl>
+          <FormLabel>Start Label</FormLabel>
+          <Input
+            value={current.minLabel || ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ minLabel: e.target.value })}
+            placeholder="e.g. Not at all likely"
+          />
+        </FormControl>
+        <FormControl>
+          <FormLabel>End Label</FormLabel>
+          <Input
+            value={current.maxLabel || ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ maxLabel: e.target.value })}
+            placeholder="e.g. Extremely likely"
+          />
+        </FormControl>
+      </HStack>
+    </VStack>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Image,
+  Input,
+  Radio,
+  RadioGroup,
+  Select,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { FormTheme, FormThemeFont, FormThemeRadius } from '../../types/form';
+import {
+  DEFAULT_BACKGROUND_COLOR,
+  DEFAULT_PRIMARY_COLOR,
+  FORM_THEME_FONTS,
+  FORM_THEME_RADII,
+  getContrastRatio,
+  isHexColor,
+  isSafeLogoUrl,
+} from '../../logic/formTheme';
+import { formatMessage } from '../../logic/messages';
+
+interface ThemeEditorProps {
+  theme?: FormTheme;
+  onChange: (theme: FormTheme | undefined) => void;
+}
+
+// Uploaded logos are stored inline with the form, so keep them small
+const MAX_LOGO_BYTES = 200 * 1024;
+
+// Chakra's default text color, gray.800
+const TEXT_COLOR = '#1a202c';
+
+interface ColorFieldProps {
+  label: string;
+  value?: string;
+  fallback: string;
+  warning?: string;
+  onChange: (value: string | undefined) => void;
+}
+
+// The hex field keeps what is being typed and only reports complete colors
+const ColorField: React.FC<ColorFieldProps> = ({ label, value, fallback, warning, onChange }) => {
+  const [draft, setDraft] = useState(value ?? '');
+
+  useEffect(() => {
+    setDraft(value ?? '');
+  }, [value]);
+
+  const handleTextChange = (text: string) => {
+    setDraft(text);
+    const color = text.trim();
+    if (!color) {
+      onChange(undefined);
+    } else if (isHexColor(color)) {
+      onChange(color.toLowerCase());
+    }
+  };
+
+  const isInvalid = !!draft.trim() && !isHexColor(draft.trim());
+
+  return (
+    <FormControl isInvalid={isInvalid}>
+      <FormLabel>{label}</FormLabel>
+      <HStack spacing={2}>
+        <Input
+          type="color"
+          w="56px"
+          p={1}
+          value={value ?? fallback}
+          aria-label={`${label} picker`}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.value)}
+        />
+        <Input
+          value={draft}
+          placeholder={fallback}
+          fontFamily="mono"
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleTextChange(e.target.value)}
+        />
+      </HStack>
+      {isInvalid ? (
+        <FormErrorMessage>Use a hex color such as {fallback}</FormErrorMessage>
+      ) : (
+        warning && <FormHelperText color="orange.600">{warning}</FormHelperText>
+      )}
+    </FormControl>
+  );
+};
+
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme = {}, onChange }) => {
+  const toast = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Unset fields are dropped so an untouched theme is stored as no theme at all
+  const update = (changes: Partial<FormTheme>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...theme, ...changes }).filter(([, value]) => value !== undefined && value !== '')
+    ) as FormTheme;
+    onChange(Object.keys(next).length ? next : undefined);
+  };
+
+  const handleLogoUpload = (file: File | undefined) => {
+    if (!file) return;
+
+    if (file.size > MAX_LOGO_BYTES) {
+      toast({
+        title: 'Failed to add logo',
+        description: `Logo files can be at most ${MAX_LOGO_BYTES / 1024} KB`,
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => update({ logoUrl: String(reader.result) });
+    reader.onerror = () =>
+      toast({
+        title: 'Failed to add logo',
+        description: reader.error?.message || 'Unknown error',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    reader.readAsDataURL(file);
+  };
+
+  const primaryWarning =
+    theme.primaryColor && getContrastRatio(theme.primaryColor, '#ffffff') < 3
+      ? 'Button text may be hard to read on this color'
+      : undefined;
+  const backgroundWarning =
+    theme.backgroundColor && getContrastRatio(theme.backgroundColor, TEXT_COLOR) < 4.5
+      ? 'Question text may be hard to read on this background'
+      : undefined;
+  const logoUrl = theme.logoUrl ?? '';
+  const isUploadedLogo = logoUrl.startsWith('data:');
+
+  return (
+    <VStack spacing={4} align="stretch">
+      <ColorField
+        label="Primary color"
+        value={theme.primaryColor}
+        fallback={DEFAULT_PRIMARY_COLOR}
+        warning={primaryWarning}
+        onChange={(primaryColor) => update({ primaryColor })}
+      />
+
+      <ColorField
+        label="Background"
+        value={theme.backgroundColor}
+        fallback={DEFAULT_BACKGROUND_COLOR}
+        warning={backgroundWarning}
+        onChange={(backgroundColor) => update({ backgroundColor })}
+      />
+
+      <FormControl>
+        <FormLabel>Font</FormLabel>
+        <Select
+          value={theme.fontFamily ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+            update({ fontFamily: (e.target.value || undefined) as FormThemeFont | undefined })
+          }
+        >
+          <option value="">Default</option>
+          {FORM_THEME_FONTS.map((font) => (
+            <option key={font.value} value={font.value}>
+              {font.label}
+            </option>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl>
+        <FormLabel>Corner radius</FormLabel>
+        <RadioGroup
+          value={theme.borderRadius ?? ''}
+          onChange={(value: string) =>
+            update({ borderRadius: (value || undefined) as FormThemeRadius | undefined })
+          }
+        >
+          <HStack spacing={4} flexWrap="wrap">
+            <Radio value="">Default</Radio>
+            {FORM_THEME_RADII.map((radius) => (
+              <Radio key={radius.value} value={radius.value}>
+                {radius.label}
+              </Radio>
+            ))}
+          </HStack>
+        </RadioGroup>
+      </FormControl>
+
+      <FormControl>
+        <FormLabel>Submit button label</FormLabel>
+        <Input
+          value={theme.submitLabel ?? ''}
+          placeholder={formatMessage('submit')}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            update({ submitLabel: e.target.value })
+          }
+        />
+      </FormControl>
+
+      <FormControl isInvalid={!!logoUrl && !isSafeLogoUrl(logoUrl)}>
+        <FormLabel>Logo</FormLabel>
+        <HStack spacing={2}>
+          <Input
+            value={isUploadedLogo ? '' : logoUrl}
+            placeholder={isUploadedLogo ? 'Uploaded image' : 'https://example.com/logo.png'}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ logoUrl: e.target.value })}
+          />
+          <Button variant="outline" flexShrink={0} onClick={() => fileInputRef.current?.click()}>
+            Upload
+          </Button>
+          {logoUrl && (
+            <Button variant="ghost" flexShrink={0} onClick={() => update({ logoUrl: undefined })}>
+              Remove
+            </Button>
+          )}
+        </HStack>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          hidden
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            handleLogoUpload(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        <FormErrorMessage>Logo links must start with http:// or https://</FormErrorMessage>
+        {logoUrl && isSafeLogoUrl(logoUrl) && (
+          <Image src={logoUrl} alt="Logo preview" mt={2} maxH="48px" objectFit="contain" />
+        )}
+      </FormControl>
+
+      <HStack justify="space-between">
+        <Text fontSize="sm" color="gray.500">
+          Unset options use the default look.
+        </Text>
+        <Button
+          size="sm"
+          variant="ghost"
+          isDisabled={!Object.keys(theme).length}
+          onClick={() => onChange(undefined)}
+        >
+          Reset theme
+        </Button>
+      </HStack>
+    </VStack>
+  );
+};
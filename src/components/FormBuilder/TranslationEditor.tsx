@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormErrorMessage,
+  FormLabel,
+  HStack,
+  Input,
+  Select,
+  Tab,
+  TabList,
+  Tabs,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { Form, FormTranslation } from '../../types/form';
+import { SUPPORTED_LOCALES, getLocaleName } from '../../logic/messages';
+import {
+  findMissingTranslations,
+  getDefaultLocale,
+  getTranslatableStrings,
+  getTranslationValue,
+  setTranslationValue,
+} from '../../logic/translations';
+
+interface TranslationEditorProps {
+  form: Form;
+  onChange: (changes: Pick<Form, 'defaultLocale' | 'translations'>) => void;
+}
+
+// BCP 47 language tags such as "de", "hi" or "pt-BR"
+const isLocaleTag = (value: string) => /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(value);
+
+export const TranslationEditor: React.FC<TranslationEditorProps> = ({ form, onChange }) => {
+  const defaultLocale = getDefaultLocale(form);
+  const translations = form.translations || {};
+  const locales = Object.keys(translations).filter((locale) => locale !== defaultLocale);
+  const [selectedLocale, setSelectedLocale] = useState<string | null>(locales[0] ?? null);
+  const [newLocale, setNewLocale] = useState('');
+  const [showMissingOnly, setShowMissingOnly] = useState(false);
+
+  const activeLocale = selectedLocale && locales.includes(selectedLocale) ? selectedLocale : locales[0];
+  const strings = getTranslatableStrings(form);
+  const missing = new Set(
+    (activeLocale ? findMissingTranslations(form, activeLocale) : []).map((entry) => entry.path.join('.'))
+  );
+  const newLocaleError =
+    newLocale && !isLocaleTag(newLocale)
+      ? 'Use a language code such as de or pt-BR'
+      : newLocale === defaultLocale || locales.includes(newLocale)
+        ? 'This language is already part of the form'
+        : undefined;
+
+  const updateTranslations = (next: Record<string, FormTranslation>) =>
+    onChange({
+      defaultLocale: form.defaultLocale,
+      translations: Object.keys(next).length ? next : undefined,
+    });
+
+  const handleAddLocale = (locale: string) => {
+    updateTranslations({ ...translations, [locale]: {} });
+    setSelectedLocale(locale);
+    setNewLocale('');
+  };
+
+  const handleRemoveLocale = (locale: string) => {
+    const rest = { ...translations };
+    delete rest[locale];
+    updateTranslations(rest);
+    setSelectedLocale(null);
+  };
+
+  const handleTextChange = (path: string[], value: string) => {
+    if (!activeLocale) return;
+    updateTranslations({
+      ...translations,
+      [activeLocale]: setTranslationValue(translations[activeLocale], path, value),
+    });
+  };
+
+  const visibleStrings = showMissingOnly
+    ? strings.filter((entry) => missing.has(entry.path.join('.')))
+    : strings;
+
+  return (
+    <VStack spacing={5} align="stretch">
+      <HStack spacing={4} align="flex-start">
+        <FormControl>
+          <FormLabel>Default language</FormLabel>
+          <Select
+            value={defaultLocale}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+              onChange({ defaultLocale: e.target.value, translations: form.translations })
+            }
+          >
+            {[...new Set([defaultLocale, ...SUPPORTED_LOCALES.map((entry) => entry.code)])]
+              .filter((locale) => !locales.includes(locale))
+              .map((locale) => (
+                <option key={locale} value={locale}>
+                  {getLocaleName(locale)}
+                </option>
+              ))}
+          </Select>
+        </FormControl>
+
+        <FormControl isInvalid={!!newLocaleError}>
+          <FormLabel>Add language</FormLabel>
+          <HStack spacing={2}>
+            <Input
+              list="translation-locales"
+              value={newLocale}
+              placeholder="e.g. de"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setNewLocale(e.target.value.trim())
+              }
+            />
+            <datalist id="translation-locales">
+              {SUPPORTED_LOCALES.map((entry) => (
+                <option key={entry.code} value={entry.code}>
+                  {entry.name}
+                </option>
+              ))}
+            </datalist>
+            <Button
+              flexShrink={0}
+              isDisabled={!newLocale || !!newLocaleError}
+              onClick={() => handleAddLocale(newLocale)}
+            >
+              Add
+            </Button>
+          </HStack>
+          <FormErrorMessage>{newLocaleError}</FormErrorMessage>
+        </FormControl>
+      </HStack>
+
+      {!activeLocale ? (
+        <Text color="gray.500">
+          The form is only in {getLocaleName(defaultLocale)}. Add a language to translate it.
+        </Text>
+      ) : (
+        <>
+          <Tabs
+            variant="soft-rounded"
+            size="sm"
+            index={locales.indexOf(activeLocale)}
+            onChange={(index: number) => setSelectedLocale(locales[index])}
+          >
+            <TabList flexWrap="wrap" gap={2}>
+              {locales.map((locale) => {
+                const count = findMissingTranslations(form, locale).length;
+                return (
+                  <Tab key={locale}>
+                    {getLocaleName(locale)}
+                    {count > 0 && (
+                      <Badge ml={2} colorScheme="orange">
+                        {count}
+                      </Badge>
+                    )}
+                  </Tab>
+                );
+              })}
+            </TabList>
+          </Tabs>
+
+          <HStack justify="space-between">
+            <Text fontSize="sm" color={missing.size ? 'orange.600' : 'green.600'}>
+              {missing.size
+                ? `${missing.size} of ${strings.length} texts missing, shown in ${getLocaleName(defaultLocale)} instead`
+                : 'Every text is translated'}
+            </Text>
+            <HStack spacing={3}>
+              <Checkbox
+                isChecked={showMissingOnly}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setShowMissingOnly(e.target.checked)
+                }
+              >
+                Missing only
+              </Checkbox>
+              <Button
+                size="sm"
+                variant="ghost"
+                colorScheme="red"
+                onClick={() => handleRemoveLocale(activeLocale)}
+              >
+                Remove language
+              </Button>
+            </HStack>
+          </HStack>
+
+          <VStack spacing={3} align="stretch">
+            {visibleStrings.map((entry) => {
+              const value = getTranslationValue(translations[activeLocale], entry.path) ?? '';
+              const isMissing = missing.has(entry.path.join('.'));
+              return (
+                <Box key={entry.path.join('.')}>
+                  <HStack spacing={2} mb={1}>
+                    <Text fontSize="xs" color="gray.500">
+                      {entry.context}
+                    </Text>
+                    {isMissing && (
+                      <Badge colorScheme="orange" fontSize="2xs">
+                        Missing
+                      </Badge>
+                    )}
+                  </HStack>
+                  <Text fontSize="sm" mb={1}>
+                    {entry.source}
+                  </Text>
+                  <Input
+                    size="sm"
+                    lang={activeLocale}
+                    value={value}
+                    aria-label={`${entry.context} in ${getLocaleName(activeLocale)}`}
+                    borderColor={isMissing ? 'orange.300' : undefined}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      handleTextChange(entry.path, e.target.value)
+                    }
+                  />
+                </Box>
+              );
+            })}
+          </VStack>
+        </>
+      )}
+    </VStack>
+  );
+};
@@ -0,0 +1,200 @@
+import React from 'react';
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  Select,
+  Switch,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { FaPlus, FaTrash } from 'react-icons/fa';
+import { nanoid } from 'nanoid';
+import {
+  CHOICE_QUESTION_TYPES,
+  Question,
+  VisibilityCondition,
+  VisibilityOperator,
+  VisibilityRule,
+} from '../../types/form';
+import { VISIBILITY_OPERATORS } from '../../logic/visibility';
+
+interface VisibilityRuleEditorProps {
+  rule?: VisibilityRule;
+  sourceQuestions: Question[];
+  onChange: (rule: VisibilityRule | undefined) => void;
+}
+
+export const VisibilityRuleEditor: React.FC<VisibilityRuleEditorProps> = ({
+  rule,
+  sourceQuestions,
+  onChange,
+}) => {
+  const isEnabled = !!rule;
+
+  const createCondition = (): VisibilityCondition => ({
+    id: nanoid(),
+    questionId: sourceQuestions[0]?.id || '',
+    operator: 'equals',
+    value: '',
+  });
+
+  const handleToggle = (enabled: boolean) => {
+    onChange(enabled ? { combinator: 'and', conditions: [createCondition()] } : undefined);
+  };
+
+  const updateCondition = (id: string, changes: Partial<VisibilityCondition>) => {
+    if (!rule) return;
+    onChange({
+      ...rule,
+      conditions: rule.conditions.map((c) => (c.id === id ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const removeCondition = (id: string) => {
+    if (!rule) return;
+    const conditions = rule.conditions.filter((c) => c.id !== id);
+    onChange(conditions.length ? { ...rule, conditions } : undefined);
+  };
+
+  const renderValueInput = (condition: VisibilityCondition) => {
+    if (condition.operator === 'is_empty') return null;
+
+    const source = sourceQuestions.find((q) => q.id === condition.questionId);
+    // Matrix conditions match the columns picked in any row
+    const isChoiceSource =
+      source && (CHOICE_QUESTION_TYPES.includes(source.type) || source.type === 'matrix') &&
+      ['equals', 'not_equals', 'contains'].includes(condition.operator);
+
+    if (isChoiceSource) {
+      return (
+        <Select
+          size="sm"
+          value={condition.value || ''}
+          placeholder="Select a value"
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+            updateCondition(condition.id, { value: e.target.value })
+          }
+        >
+          {(source.options || []).map((option) => (
+            <option key={option.id} value={option.label}>
+              {option.label}
+            </option>
+          ))}
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        size="sm"
+        type={
+          source?.type === 'number' || source?.type === 'rating' || source?.type === 'scale'
+            ? 'number'
+            : 'text'
+        }
+        value={condition.value || ''}
+        placeholder="Value"
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          updateCondition(condition.id, { value: e.target.value })
+        }
+      />
+    );
+  };
+
+  return (
+    <VStack spacing={2} align="stretch">
+      <FormControl display="flex" alignItems="center">
+        <FormLabel mb="0">Show only when conditions match</FormLabel>
+        <Switch
+          isChecked={isEnabled}
+          isDisabled={!isEnabled && sourceQuestions.length === 0}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleToggle(e.target.checked)}
+        />
+      </FormControl>
+
+      {!isEnabled && sourceQuestions.length === 0 && (
+        <Text fontSize="sm" color="gray.500">
+          Conditions can only refer to questions that come before this one.
+        </Text>
+      )}
+
+      {rule && (
+        <>
+          <HStack spacing={2}>
+            <Text fontSize="sm">Show this question when</Text>
+            <Select
+              size="sm"
+              w="auto"
+              value={rule.combinator}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                onChange({ ...rule, combinator: e.target.value as VisibilityRule['combinator'] })
+              }
+            >
+              <option value="and">all</option>
+              <option value="or">any</option>
+            </Select>
+            <Text fontSize="sm">of these conditions match:</Text>
+          </HStack>
+
+          {rule.conditions.map((condition) => (
+            <HStack key={condition.id} spacing={2}>
+              <Select
+                size="sm"
+                value={condition.questionId}
+                placeholder="Select a question"
+                isInvalid={!sourceQuestions.some((q) => q.id === condition.questionId)}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  updateCondition(condition.id, { questionId: e.target.value, value: '' })
+                }
+              >
+                {sourceQuestions.map((q) => (
+                  <option key={q.id} value={q.id}>
+                    {q.label || 'Untitled question'}
+                  </option>
+                ))}
+              </Select>
+              <Select
+                size="sm"
+                value={condition.operator}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                  updateCondition(condition.id, {
+                    operator: e.target.value as VisibilityOperator,
+                  })
+                }
+              >
+                {VISIBILITY_OPERATORS.map((operator) => (
+                  <option key={operator.value} value={operator.value}>
+                    {operator.label}
+                  </option>
+                ))}
+              </Select>
+              {renderValueInput(condition)}
+              <IconButton
+                aria-label="Remove condition"
+                icon={<FaTrash />}
+                size="sm"
+                colorScheme="red"
+                variant="ghost"
+                onClick={() => removeCondition(condition.id)}
+              />
+            </HStack>
+          ))}
+
+          <Button
+            size="sm"
+            leftIcon={<FaPlus />}
+            variant="outline"
+            alignSelf="flex-start"
+            onClick={() => onChange({ ...rule, conditions: [...rule.conditions, createCondition()] })}
+          >
+            Add Condition
+          </Button>
+        </>
+      )}
+    </VStack>
+  );
+};
@@ -1,14 +1,16 @@
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ChakraProvider } from '@chakra-ui/react';
 import { FormBuilder } from '../FormBuilder';
 import { formService } from '../../../services/formService';
+import { Form } from '../../../types/form';
 
 // Mock the formService
 vi.mock('../../../services/formService', () => ({
   formService: {
     saveForm: vi.fn(),
     saveQuestion: vi.fn(),
+    updateForm: vi.fn(),
   },
 }));
 
@@ -73,4 +75,51 @@ describe('FormBuilder', () => {
       expect(requiredSwitch).toBeChecked();
     });
   });
-}); 
\ No newline at end of file
+}); 
+
+describe('FormBuilder undo', () => {
+  const survey: Form = {
+    id: 'f1',
+    title: 'Survey',
+    questions: [{ id: 'q1', type: 'text', label: 'Name' }],
+    revision: 1,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not save an edit that was undone before its save ran', async () => {
+    vi.mocked(formService.updateForm).mockImplementation(async (form) => ({
+      ...form,
+      revision: form.revision + 1,
+    }));
+    vi.mocked(formService.saveQuestion).mockImplementation(async (_, question, revision) => ({
+      ...survey,
+      questions: [question],
+      revision: revision + 1,
+    }));
+    render(
+      <ChakraProvider>
+        <FormBuilder initialForm={survey} />
+      </ChakraProvider>
+    );
+
+    const label = await screen.findByDisplayValue('Name');
+    // Lets the question builder take over the question before it is edited
+    await act(() => Promise.resolve());
+    fireEvent.change(label, { target: { value: 'Full name' } });
+    // Past the builder's own delay, inside the question's save debounce
+    await new Promise((resolve) => setTimeout(resolve, 700));
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+
+    await waitFor(() => expect(formService.updateForm).toHaveBeenCalled(), { timeout: 2000 });
+    expect(vi.mocked(formService.updateForm).mock.calls[0][0].questions[0].label).toBe('Name');
+
+    // The question's own save would have run by now
+    await new Promise((resolve) => setTimeout(resolve, 2500));
+    expect(formService.saveQuestion).not.toHaveBeenCalled();
+  }, 10000);
+});
@@ -0,0 +1,397 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Button,
+  Container,
+  VStack,
+  HStack,
+  Text,
+  Heading,
+  Input,
+  Spinner,
+  Switch,
+  Badge,
+  IconButton,
+  FormControl,
+  FormLabel,
+  useToast,
+  AlertDialog,
+  AlertDialogBody,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogOverlay,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
+  List,
+  ListItem,
+} from '@chakra-ui/react';
+import {
+  FaCopy,
+  FaTrash,
+  FaArchive,
+  FaBoxOpen,
+  FaEdit,
+  FaCheck,
+  FaDownload,
+  FaUpload,
+} from 'react-icons/fa';
+import { Form } from '../../types/form';
+import { formService, FormConflictError } from '../../services/formService';
+import { exportFormJson, parseFormImport } from '../../logic/formTransfer';
+import { createAnswerJsonSchema } from '../../logic/answerJsonSchema';
+import { downloadFile, toFileName } from '../../utils/download';
+
+interface FormDashboardProps {
+  onOpenForm: (formId: string) => void;
+}
+
+export const FormDashboard: React.FC<FormDashboardProps> = ({ onOpenForm }) => {
+  const [forms, setForms] = useState<Form[] | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<Form | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[] | null>(null);
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const importCloseRef = useRef<HTMLButtonElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const toast = useToast();
+
+  const showError = (title: string, error: unknown) => {
+    // A stale row is refreshed so the next attempt is based on the stored form
+    if (error instanceof FormConflictError) {
+      const current = error.current;
+      setForms((prev) => prev?.map((f) => (f.id === current.id ? current : f)) ?? null);
+    }
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      status: 'error',
+      duration: 5000,
+      isClosable: true,
+    });
+  };
+
+  const loadForms = async () => {
+    try {
+      setForms(await formService.getForms());
+    } catch (error) {
+      setForms([]);
+      showError('Failed to load forms', error);
+    }
+  };
+
+  useEffect(() => {
+    loadForms();
+  }, []);
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    try {
+      const newForm = await formService.saveForm({ title: 'Untitled form', questions: [] });
+      onOpenForm(newForm.id);
+    } catch (error) {
+      showError('Failed to create form', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = async (form: Form) => {
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!title || title === form.title) return;
+
+    try {
+      const updated = await formService.updateForm({ ...form, title });
+      setForms((prev) => prev?.map((f) => (f.id === updated.id ? updated : f)) ?? null);
+    } catch (error) {
+      showError('Failed to rename form', error);
+    }
+  };
+
+  const handleDuplicate = async (form: Form) => {
+    try {
+      const copy = await formService.duplicateForm(form.id);
+      setForms((prev) => [...(prev ?? []), copy]);
+    } catch (error) {
+      showError('Failed to duplicate form', error);
+    }
+  };
+
+  const handleArchiveToggle = async (form: Form) => {
+    try {
+      const updated = await formService.updateForm({ ...form, archived: !form.archived });
+      setForms((prev) => prev?.map((f) => (f.id === updated.id ? updated : f)) ?? null);
+    } catch (error) {
+      showError(form.archived ? 'Failed to restore form' : 'Failed to archive form', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const form = pendingDelete;
+    setPendingDelete(null);
+
+    try {
+      await formService.deleteForm(form.id);
+      setForms((prev) => prev?.filter((f) => f.id !== form.id) ?? null);
+    } catch (error) {
+      showError('Failed to delete form', error);
+    }
+  };
+
+  const handleExportJson = (form: Form) => {
+    downloadFile(`${toFileName(form.title)}.form.json`, exportFormJson(form), 'application/json');
+  };
+
+  const handleExportSchema = (form: Form) => {
+    downloadFile(
+      `${toFileName(form.title)}.schema.json`,
+      JSON.stringify(createAnswerJsonSchema(form), null, 2),
+      'application/schema+json'
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseFormImport(await file.text());
+    if (!result.success) {
+      setImportErrors(result.errors);
+      return;
+    }
+
+    try {
+      const imported = await formService.saveForm(result.form);
+      setForms((prev) => [...(prev ?? []), imported]);
+      toast({
+        title: `Imported "${imported.title || 'Untitled form'}"`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error) {
+      showError('Failed to import form', error);
+    }
+  };
+
+  if (!forms) {
+    return (
+      <Container maxW="container.lg" py={8}>
+        <VStack spacing={4} align="center">
+          <Spinner size="xl" />
+          <Text>Loading forms...</Text>
+        </VStack>
+      </Container>
+    );
+  }
+
+  const visibleForms = forms
+    .filter((f) => showArchived || !f.archived)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <Container maxW="container.lg" py={8}>
+      <VStack spacing={6} align="stretch">
+        <HStack justify="space-between">
+          <Heading size="lg">Forms</Heading>
+          <HStack spacing={4}>
+            <FormControl display="flex" alignItems="center" mb={0}>
+              <FormLabel htmlFor="show-archived" mb="0">
+                Show archived
+              </FormLabel>
+              <Switch
+                id="show-archived"
+                isChecked={showArchived}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setShowArchived(e.target.checked)
+                }
+              />
+            </FormControl>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={handleImport}
+            />
+            <Button
+              leftIcon={<FaUpload />}
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              flexShrink={0}
+            >
+              Import
+            </Button>
+            <Button colorScheme="blue" onClick={handleCreate} isLoading={isBusy} flexShrink={0}>
+              New Form
+            </Button>
+          </HStack>
+        </HStack>
+
+        {visibleForms.length === 0 && (
+          <Text color="gray.500">No forms yet. Create one to get started.</Text>
+        )}
+
+        {visibleForms.map((form) => (
+          <Box
+            key={form.id}
+            p={4}
+            borderWidth="1px"
+            borderRadius="lg"
+            bg="white"
+            shadow="sm"
+          >
+            <HStack justify="space-between" spacing={4}>
+              <VStack align="start" spacing={1} flex={1}>
+                {renamingId === form.id ? (
+                  <HStack w="full">
+                    <Input
+                      size="sm"
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setRenameValue(e.target.value)
+                      }
+                      onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                        if (e.key === 'Enter') handleRename(form);
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                    />
+                    <IconButton
+                      aria-label="Save title"
+                      icon={<FaCheck />}
+                      size="sm"
+                      onClick={() => handleRename(form)}
+                    />
+                  </HStack>
+                ) : (
+                  <HStack>
+                    <Text fontWeight="semibold">{form.title || 'Untitled form'}</Text>
+                    {form.archived && <Badge>Archived</Badge>}
+                  </HStack>
+                )}
+                <Text fontSize="sm" color="gray.500">
+                  {form.questions.length} question{form.questions.length === 1 ? '' : 's'} · Updated{' '}
+                  {new Date(form.updatedAt).toLocaleString()}
+                </Text>
+              </VStack>
+
+              <HStack spacing={1}>
+                <Button size="sm" onClick={() => onOpenForm(form.id)}>
+                  Open
+                </Button>
+                <IconButton
+                  aria-label="Rename form"
+                  icon={<FaEdit />}
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setRenamingId(form.id);
+                    setRenameValue(form.title);
+                  }}
+                />
+                <IconButton
+                  aria-label="Duplicate form"
+                  icon={<FaCopy />}
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDuplicate(form)}
+                />
+                <Menu>
+                  <MenuButton
+                    as={IconButton}
+                    aria-label="Export form"
+                    icon={<FaDownload />}
+                    size="sm"
+                    variant="ghost"
+                  />
+                  <MenuList>
+                    <MenuItem onClick={() => handleExportJson(form)}>Form (JSON)</MenuItem>
+                    <MenuItem onClick={() => handleExportSchema(form)}>Answers (JSON Schema)</MenuItem>
+                  </MenuList>
+                </Menu>
+                <IconButton
+                  aria-label={form.archived ? 'Restore form' : 'Archive form'}
+                  icon={form.archived ? <FaBoxOpen /> : <FaArchive />}
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleArchiveToggle(form)}
+                />
+                <IconButton
+                  aria-label="Delete form"
+                  icon={<FaTrash />}
+                  size="sm"
+                  colorScheme="red"
+                  variant="ghost"
+                  onClick={() => setPendingDelete(form)}
+                />
+              </HStack>
+            </HStack>
+          </Box>
+        ))}
+      </VStack>
+
+      <AlertDialog
+        isOpen={!!pendingDelete}
+        leastDestructiveRef={cancelRef}
+        onClose={() => setPendingDelete(null)}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Delete form
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              Delete "{pendingDelete?.title || 'Untitled form'}"? This cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelRef} onClick={() => setPendingDelete(null)}>
+                Cancel
+              </Button>
+              <Button colorScheme="red" onClick={handleDelete} ml={3}>
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+
+      <AlertDialog
+        isOpen={!!importErrors}
+        leastDestructiveRef={importCloseRef}
+        onClose={() => setImportErrors(null)}
+      >
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Could not import form
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              <Text mb={2}>The file has the following problems:</Text>
+              <List spacing={1} maxH="300px" overflowY="auto">
+                {importErrors?.map((error, index) => (
+                  <ListItem key={index} fontSize="sm" fontFamily="mono" color="red.600">
+                    {error}
+                  </ListItem>
+                ))}
+              </List>
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={importCloseRef} onClick={() => setImportErrors(null)}>
+                Close
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+    </Container>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Radio,
+  Select,
+  Spinner,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { Form, FormRevision } from '../../types/form';
+import { formService } from '../../services/formService';
+import { diffRevisions, QuestionChangeStatus } from '../../logic/revisionDiff';
+
+interface FormHistoryProps {
+  formId: string;
+  currentRevision: number;
+  onRestore: (snapshot: Form) => void;
+}
+
+const STATUS_COLORS: Record<QuestionChangeStatus, string> = {
+  added: 'green',
+  removed: 'red',
+  changed: 'orange',
+  unchanged: 'gray',
+};
+
+export const FormHistory: React.FC<FormHistoryProps> = ({ formId, currentRevision, onRestore }) => {
+  const [revisions, setRevisions] = useState<FormRevision[] | null>(null);
+  const [baseRevision, setBaseRevision] = useState<number | null>(null);
+  const [targetRevision, setTargetRevision] = useState<number | null>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      try {
+        const loaded = await formService.getRevisions(formId);
+        setRevisions(loaded);
+        // Default to comparing the latest revision with the one before it
+        setTargetRevision(loaded[0]?.revision ?? null);
+        setBaseRevision(loaded[1]?.revision ?? loaded[0]?.revision ?? null);
+      } catch (error) {
+        setRevisions([]);
+        toast({
+          title: 'Failed to load history',
+          description: error instanceof Error ? error.message : 'Unknown error',
+          status: 'error',
+          duration: 5000,
+          isClosable: true,
+        });
+      }
+    };
+
+    loadRevisions();
+  }, [formId, currentRevision, toast]);
+
+  if (!revisions) {
+    return (
+      <VStack py={8}>
+        <Spinner />
+      </VStack>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <Text color="gray.500">No saved revisions yet.</Text>;
+  }
+
+  const base = revisions.find((r) => r.revision === baseRevision);
+  const target = revisions.find((r) => r.revision === targetRevision);
+  const diff = base && target ? diffRevisions(base.snapshot, target.snapshot) : null;
+  const changedQuestions = diff?.questions.filter((q) => q.status !== 'unchanged') ?? [];
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <VStack spacing={2} align="stretch">
+        {revisions.map((revision) => (
+          <HStack
+            key={revision.id}
+            p={3}
+            borderWidth="1px"
+            borderRadius="md"
+            bg={revision.revision === targetRevision ? 'blue.50' : 'white'}
+            justify="space-between"
+          >
+            <HStack spacing={3}>
+              <Radio
+                isChecked={revision.revision === targetRevision}
+                onChange={() => setTargetRevision(revision.revision)}
+                aria-label={`Compare revision ${revision.revision}`}
+              />
+              <VStack spacing={0} align="start">
+                <HStack>
+                  <Text fontWeight="semibold">Revision {revision.revision}</Text>
+                  {revision.revision === currentRevision && <Badge colorScheme="green">Current</Badge>}
+                </HStack>
+                <Text fontSize="sm" color="gray.500">
+                  {new Date(revision.createdAt).toLocaleString()} · {revision.snapshot.questions.length}{' '}
+                  question{revision.snapshot.questions.length === 1 ? '' : 's'}
+                </Text>
+              </VStack>
+            </HStack>
+            <Button
+              size="sm"
+              variant="outline"
+              isDisabled={revision.revision === currentRevision}
+              onClick={() => onRestore(revision.snapshot)}
+            >
+              Restore
+            </Button>
+          </HStack>
+        ))}
+      </VStack>
+
+      <Box>
+        <HStack spacing={2} mb={3}>
+          <Text fontWeight="semibold" flexShrink={0}>
+            Changes since
+          </Text>
+          <Select
+            size="sm"
+            value={baseRevision ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBaseRevision(Number(e.target.value))}
+          >
+            {revisions.map((revision) => (
+              <option key={revision.id} value={revision.revision}>
+                Revision {revision.revision}
+              </option>
+            ))}
+          </Select>
+        </HStack>
+
+        {diff && (
+          <VStack spacing={2} align="stretch">
+            {diff.titleChanged && (
+              <Text fontSize="sm">
+                Title changed from "{base?.snapshot.title}" to "{target?.snapshot.title}"
+              </Text>
+            )}
+            {diff.themeChanged && <Text fontSize="sm">Theme changed</Text>}
+            {changedQuestions.length === 0 && !diff.titleChanged && !diff.themeChanged && (
+              <Text fontSize="sm" color="gray.500">
+                No differences between these revisions.
+              </Text>
+            )}
+            {changedQuestions.map((question) => (
+              <HStack key={question.questionId} align="start" spacing={3}>
+                <Badge colorScheme={STATUS_COLORS[question.status]} minW="70px" textAlign="center">
+                  {question.status}
+                </Badge>
+                <VStack spacing={0} align="start">
+                  <Text fontSize="sm">{question.label || 'Untitled question'}</Text>
+                  {question.changes.length > 0 && (
+                    <Text fontSize="xs" color="gray.500">
+                      {question.changes.join(', ')}
+                    </Text>
+                  )}
+                </VStack>
+              </HStack>
+            ))}
+          </VStack>
+        )}
+      </Box>
+    </VStack>
+  );
+};
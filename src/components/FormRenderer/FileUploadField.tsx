@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  Icon,
+  IconButton,
+  Image,
+  ListItem,
+  Text,
+  UnorderedList,
+  VStack,
+} from '@chakra-ui/react';
+import { FaFileAlt, FaTimes } from 'react-icons/fa';
+import { FileAnswer, Question } from '../../types/form';
+import { MessageFormatter } from '../../logic/messages';
+import { checkNewFiles, formatFileSize } from '../../logic/fileUpload';
+import { FileStore } from '../../services/fileStore';
+
+interface FileUploadFieldProps {
+  question: Question;
+  value: FileAnswer[];
+  onChange: (files: FileAnswer[]) => void;
+  onBlur: () => void;
+  fileStore: FileStore;
+  messages: MessageFormatter;
+  // Props naming and describing the group, from the renderer
+  groupProps: React.HTMLAttributes<HTMLElement>;
+}
+
+/**
+ * Drop zone and file picker for a file question. Picked files are checked,
+ * stored in the file store, and the answer keeps references to them.
+ */
+export const FileUploadField: React.FC<FileUploadFieldProps> = ({
+  question,
+  value,
+  onChange,
+  onBlur,
+  fileStore,
+  messages,
+  groupProps,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isStoring, setIsStoring] = useState(false);
+  const [rejections, setRejections] = useState<string[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const { acceptedFileTypes, maxFiles } = question.validation || {};
+
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
+  const requestedPreviewsRef = useRef(new Set<string>());
+  const isMountedRef = useRef(true);
+  // Stores finish after renders, so they read the latest answer rather than the one they started from
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const storeQueueRef = useRef(Promise.resolve());
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      Object.values(previewsRef.current).forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  // Image previews are read back from the store, so files restored from a draft get one too
+  useEffect(() => {
+    value
+      .filter((file) => file.type.startsWith('image/') && !requestedPreviewsRef.current.has(file.id))
+      .forEach(async (file) => {
+        requestedPreviewsRef.current.add(file.id);
+        try {
+          const blob = await fileStore.getFile(file.id);
+          if (blob && isMountedRef.current) {
+            const url = URL.createObjectURL(blob);
+            setPreviews((current) => ({ ...current, [file.id]: url }));
+          }
+        } catch (error) {
+          console.error('Failed to load file preview:', error);
+        }
+      });
+  }, [value, fileStore]);
+
+  const storeFiles = async (picked: File[]) => {
+    const { accepted, errors } = checkNewFiles(question, valueRef.current.length, picked, messages);
+    const failed: string[] = [];
+    const stored: FileAnswer[] = [];
+
+    setIsStoring(true);
+    for (const file of accepted) {
+      try {
+        stored.push(await fileStore.putFile(file));
+      } catch (error) {
+        console.error('Failed to store file:', error);
+        failed.push(messages('uploadFailed', { name: file.name }));
+      }
+    }
+    setIsStoring(false);
+
+    setRejections([...errors, ...failed]);
+    if (stored.length) {
+      // Counted by the next batch before the answer comes back through a render
+      valueRef.current = [...valueRef.current, ...stored];
+      onChange(valueRef.current);
+    }
+    onBlur();
+  };
+
+  // Files picked while others are being stored wait their turn, so each batch counts the ones before it
+  const addFiles = (picked: File[]) => {
+    storeQueueRef.current = storeQueueRef.current.then(() => storeFiles(picked));
+  };
+
+  const removeFile = (file: FileAnswer) => {
+    onChange(value.filter((entry) => entry.id !== file.id));
+    setRejections([]);
+    // Forgotten as well as revoked, so a file that comes back (undo, a restored draft) gets a new preview
+    requestedPreviewsRef.current.delete(file.id);
+    if (previews[file.id]) {
+      URL.revokeObjectURL(previews[file.id]);
+      setPreviews((current) => {
+        const rest = { ...current };
+        delete rest[file.id];
+        return rest;
+      });
+    }
+    fileStore.deleteFile(file.id).catch((error) => console.error('Failed to delete file:', error));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const isFull = maxFiles !== undefined && value.length >= maxFiles;
+
+  return (
+    <VStack spacing={3} align="stretch" role="group" {...groupProps}>
+      <Box
+        p={6}
+        borderWidth="2px"
+        borderStyle="dashed"
+        borderRadius="md"
+        borderColor={isDragging ? 'blue.400' : 'gray.300'}
+        bg={isDragging ? 'blue.50' : undefined}
+        textAlign="center"
+        onDragOver={(e: React.DragEvent) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <HStack justify="center" spacing={2} flexWrap="wrap">
+          <Text color="gray.600">{messages('dropFiles')}</Text>
+          <Button
+            size="sm"
+            isLoading={isStoring}
+            isDisabled={isFull}
+            onClick={() => inputRef.current?.click()}
+          >
+            {messages('chooseFiles')}
+          </Button>
+        </HStack>
+        <input
+          ref={inputRef}
+          type="file"
+          hidden
+          multiple={maxFiles !== 1}
+          accept={acceptedFileTypes?.join(',')}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            addFiles(Array.from(e.target.files || []));
+            // Picking the same file again should fire another change
+            e.target.value = '';
+          }}
+        />
+      </Box>
+
+      {rejections.length > 0 && (
+        <UnorderedList role="alert" color="red.600" fontSize="sm" spacing={1}>
+          {rejections.map((rejection) => (
+            <ListItem key={rejection}>{rejection}</ListItem>
+          ))}
+        </UnorderedList>
+      )}
+
+      {value.length > 0 && (
+        <UnorderedList styleType="none" ml={0} spacing={2}>
+          {value.map((file) => (
+            <ListItem key={file.id}>
+              <HStack spacing={3} p={2} borderWidth="1px" borderRadius="md">
+                {previews[file.id] ? (
+                  <Image
+                    src={previews[file.id]}
+                    alt=""
+                    boxSize="40px"
+                    objectFit="cover"
+                    borderRadius="sm"
+                  />
+                ) : (
+                  <Icon as={FaFileAlt} boxSize="24px" mx="8px" color="gray.500" />
+                )}
+                <Box flex={1} minW={0}>
+                  <Text noOfLines={1}>{file.name}</Text>
+                  <Text fontSize="xs" color="gray.500">
+                    {formatFileSize(file.size)}
+                  </Text>
+                </Box>
+                <IconButton
+                  aria-label={messages('removeFile', { name: file.name })}
+                  icon={<FaTimes />}
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeFile(file)}
+                />
+              </HStack>
+            </ListItem>
+          ))}
+        </UnorderedList>
+      )}
+    </VStack>
+  );
+};
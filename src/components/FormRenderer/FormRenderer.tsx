@@ -1,121 +1,302 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Box,
   Container,
   FormControl,
   FormLabel,
   FormErrorMessage,
+  FormHelperText,
   Input,
+  Link,
+  ListItem,
+  RequiredIndicator,
+  UnorderedList,
+  Select,
+  RadioGroup,
+  Radio,
+  CheckboxGroup,
+  Checkbox,
+  Stack,
   VStack,
+  HStack,
+  Heading,
+  Image,
+  Text,
+  Progress,
   useToast,
   Button,
 } from '@chakra-ui/react';
-import { useForm } from 'react-hook-form';
+import { Controller, Resolver, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Form, Question } from '../../types/form';
+import {
+  FileAnswer,
+  Form,
+  FormValues,
+  OTHER_OPTION_VALUE,
+  Question,
+  QuestionType,
+} from '../../types/form';
+import { createFormSchema, isOtherSelected, otherFieldName } from '../../validation/questionSchema';
+import { getVisibleQuestionIds, getVisibleQuestions } from '../../logic/visibility';
+import { getPageGroups } from '../../logic/pages';
+import { computeCalculatedValues } from '../../logic/formula';
+import { getThemeCssVars, isHexColor, isSafeLogoUrl } from '../../logic/formTheme';
+import { createFormTranslator } from '../../logic/translations';
+import { getFileAnswerIds } from '../../logic/fileUpload';
+import { ResponseDraftStore } from '../../services/responseDrafts';
+import { useResponseDraft } from '../../hooks/useResponseDraft';
+import { FileStore, fileStore } from '../../services/fileStore';
+import { FileUploadField } from './FileUploadField';
+import { RatingField } from './RatingField';
+import { ScaleField } from './ScaleField';
+import { MatrixField } from './MatrixField';
+
+// Questions answered with several controls are fieldsets named by a legend
+const GROUP_QUESTION_TYPES: QuestionType[] = ['radio', 'checkbox', 'file', 'rating', 'scale', 'matrix'];
+
+// Ids of a question's input (or option group) and its "Other" text field
+const fieldId = (questionId: string) => `field-${questionId}`;
+const otherFieldId = (questionId: string) => `${fieldId(questionId)}-other`;
+
+export interface FormFieldError {
+  questionId: string;
+  message: string;
+}
 
 interface FormRendererProps {
   form: Form;
-  onSubmit: (values: Record<string, unknown>) => void;
+  // Falls back through the language without region to the form's default language
+  locale?: string;
+  // Answers that replace the questions' own defaults, e.g. read from the URL
+  prefill?: FormValues;
+  // Keeps unfinished answers here so respondents can continue after a reload
+  drafts?: ResponseDraftStore;
+  // Where uploaded files are kept; answers reference them by id
+  files?: FileStore;
+  onSubmit: (values: Record<string, unknown>) => void | Promise<void>;
+  // Called as the respondent edits an answer, with every answer so far
+  onChange?: (values: Record<string, unknown>) => void;
+  // Called when submitting or moving to the next page is blocked by invalid answers
+  onValidationError?: (errors: FormFieldError[]) => void;
 }
 
-export const FormRenderer: React.FC<FormRendererProps> = ({ form, onSubmit }) => {
-  const toast = useToast();
-
-  const createValidationSchema = () => {
-    const schema: Record<string, z.ZodType<string | number>> = {};
+// A blank answer in the shape the question type submits
+const emptyAnswer = (question: Question) => {
+  if (question.type === 'checkbox' || question.type === 'file') return [];
+  if (question.type === 'matrix') return {};
+  return '';
+};
 
-    form.questions.forEach((question) => {
-      switch (question.type) {
-        case 'text': {
-          let textSchema = z.string();
-          if (question.validation?.required) {
-            textSchema = textSchema.min(1, 'This field is required');
-          }
-          schema[question.id] = textSchema;
-          break;
-        }
-
-        case 'number': {
-          const baseSchema = z.string()
-            .refine(val => val === '' || !isNaN(Number(val)), 'Must be a number')
-            .transform(val => {
-              if (val === '') return null;
-              return Number(val);
-            });
-
-          const numberValidation = z.number()
-            .nullable()
-            .refine(val => {
-              if (question.validation?.required && val === null) {
-                return false;
-              }
-              if (val === null) return true;
-              
-              if (question.validation?.min !== undefined && val < question.validation.min) {
-                return false;
-              }
-              if (question.validation?.max !== undefined && val > question.validation.max) {
-                return false;
-              }
-              return true;
-            }, val => {
-              if (question.validation?.required && val === null) {
-                return { message: 'This field is required' };
-              }
-              if (val === null) return { message: '' };
-              
-              if (question.validation?.min !== undefined && val < question.validation.min) {
-                return { message: `Value must be at least ${question.validation.min}` };
-              }
-              if (question.validation?.max !== undefined && val > question.validation.max) {
-                return { message: `Value must not exceed ${question.validation.max}` };
-              }
-              return { message: '' };
-            })
-            .transform(val => val === null ? '' : val);
-
-          schema[question.id] = baseSchema.pipe(numberValidation);
-          break;
-        }
-
-        default:
-          schema[question.id] = z.string();
-      }
-    });
-
-    return z.object(schema);
-  };
+export const FormRenderer: React.FC<FormRendererProps> = ({
+  form,
+  locale,
+  prefill,
+  drafts,
+  files = fileStore,
+  onSubmit,
+  onChange,
+  onValidationError,
+}) => {
+  const toast = useToast();
+  const [pageIndex, setPageIndex] = useState(0);
+  // The error summary appears after a failed submit and stays until the page's errors are fixed
+  const [showErrorSummary, setShowErrorSummary] = useState(false);
+  const t = useMemo(() => createFormTranslator(form, locale), [form, locale]);
 
-  const validationSchema = createValidationSchema();
+  // Only questions visible for the current answers are validated and submitted
+  const resolver: Resolver<Record<string, unknown>> = (values, context, options) =>
+    zodResolver(
+      createFormSchema(getVisibleQuestions(form.questions, values).map(t.question), t.messages)
+    )(
+      values,
+      context,
+      options
+    );
 
   const {
     register,
+    control,
+    watch,
+    getValues,
+    setValue,
+    trigger,
     handleSubmit,
-    formState: { errors },
+    reset,
+    getFieldState,
+    formState: { errors, isSubmitting },
   } = useForm({
-    resolver: zodResolver(validationSchema),
+    resolver,
+    // Focus follows the order of questions on the page, which registration order doesn't
+    shouldFocusError: false,
     defaultValues: form.questions.reduce(
       (acc, question) => ({
         ...acc,
-        [question.id]: question.value || '',
+        [question.id]: prefill?.[question.id] ?? (question.value || emptyAnswer(question)),
       }),
       {} as Record<string, unknown>
     ),
   });
 
-  const handleFormSubmit = (values: Record<string, unknown>) => {
+  // Restored answers don't become the defaults, so "Start over" and submitting still clear them
+  const draft = useResponseDraft({
+    form,
+    store: drafts,
+    onRestore: ({ answers: draftAnswers, pageIndex: draftPageIndex }) => {
+      reset({ ...getValues(), ...draftAnswers }, { keepDefaultValues: true });
+      setPageIndex(draftPageIndex);
+    },
+  });
+
+  const answers = watch();
+  const calculatedValues = computeCalculatedValues(form.questions, answers);
+
+  // Calculated answers live in the form state so they are validated and submitted like any other
+  useEffect(() => {
+    Object.entries(calculatedValues).forEach(([questionId, value]) => {
+      if (getValues(questionId) !== value) {
+        setValue(questionId, value);
+      }
+    });
+  });
+
+  const visibleQuestionIds = getVisibleQuestionIds(form.questions, {
+    ...answers,
+    ...calculatedValues,
+  });
+  // Hidden questions are submitted with their prefilled value but never shown
+  const isShown = (question: Question) =>
+    question.type !== 'hidden' && visibleQuestionIds.has(question.id);
+
+  // Pages without a question to show are skipped
+  const navigablePages = getPageGroups(form)
+    .map((group, index) => ({ ...group, index }))
+    .filter((group) => group.questions.some(isShown));
+  const position = Math.max(0, navigablePages.findIndex((group) => group.index >= pageIndex));
+  const currentPage = navigablePages[position];
+  const currentQuestions = (currentPage?.questions || []).filter(isShown);
+  const isLastPage = position >= navigablePages.length - 1;
+
+  // Each invalid field on the page in display order, with the DOM id of its input
+  const invalidFields = currentQuestions.flatMap((question) =>
+    [
+      { name: question.id, id: fieldId(question.id), question },
+      { name: otherFieldName(question.id), id: otherFieldId(question.id), question },
+    ].filter((field) => errors[field.name])
+  );
+
+  // Option groups are focused through their first option, file questions through their button
+  const focusField = (id: string) => {
+    const element = document.getElementById(id);
+    const target = element?.matches('input, select, textarea')
+      ? element
+      : element?.querySelector<HTMLElement>(
+          'input:not([disabled]):not([hidden]), button:not([disabled])'
+        );
+    target?.focus();
+  };
+
+  // Shows the summary, moves focus to the first invalid field and tells the parent
+  const reportErrors = (fieldNames: string[]) => {
+    setShowErrorSummary(true);
+    const invalid = currentQuestions
+      .flatMap((q) => [
+        { questionId: q.id, name: q.id, id: fieldId(q.id) },
+        { questionId: q.id, name: otherFieldName(q.id), id: otherFieldId(q.id) },
+      ])
+      .filter((field) => fieldNames.includes(field.name) && getFieldState(field.name).invalid);
+    if (invalid.length) {
+      focusField(invalid[0].id);
+    }
+    onValidationError?.(
+      invalid.map((field) => ({
+        questionId: field.questionId,
+        message: getFieldState(field.name).error?.message ?? '',
+      }))
+    );
+  };
+
+  const goToPage = (index: number) => {
+    setPageIndex(index);
+    setShowErrorSummary(false);
+  };
+
+  const handleNext = async () => {
+    const fieldNames = currentQuestions.flatMap((q) =>
+      q.allowOther ? [q.id, otherFieldName(q.id)] : [q.id]
+    );
+    if (await trigger(fieldNames)) {
+      goToPage(navigablePages[position + 1].index);
+      draft.saveDraft(getValues(), navigablePages[position + 1].index);
+    } else {
+      reportErrors(fieldNames);
+    }
+  };
+
+  const handleBack = () => {
+    if (position > 0) {
+      goToPage(navigablePages[position - 1].index);
+      draft.saveDraft(getValues(), navigablePages[position - 1].index);
+    }
+  };
+
+  const handleInvalid = (invalid: Record<string, unknown>) => {
+    reportErrors(Object.keys(invalid));
+  };
+
+  // Swap the "Other" sentinel for the text the respondent typed
+  const resolveOtherAnswers = (values: Record<string, unknown>) => {
+    const resolved = { ...values };
+    form.questions.forEach((question) => {
+      if (!question.allowOther) return;
+
+      const otherField = otherFieldName(question.id);
+      const otherText = String(resolved[otherField] ?? '').trim();
+      const value = resolved[question.id];
+      if (Array.isArray(value)) {
+        resolved[question.id] = value.map((v) => (v === OTHER_OPTION_VALUE ? otherText : v));
+      } else if (value === OTHER_OPTION_VALUE) {
+        resolved[question.id] = otherText;
+      }
+      delete resolved[otherField];
+    });
+    return resolved;
+  };
+
+  // Read through a ref so the subscription below always reaches the latest props
+  const changeHandlerRef = useRef<(values: Record<string, unknown>) => void>();
+  changeHandlerRef.current = (values) => {
+    onChange?.(resolveOtherAnswers(values));
+    draft.saveDraft(values, pageIndex);
+  };
+
+  useEffect(() => {
+    // Only the respondent's edits count; calculated values are set programmatically
+    const subscription = watch((values, { type }) => {
+      if (type === 'change') {
+        changeHandlerRef.current?.(values);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [watch]);
+
+  const handleFormSubmit = async (values: Record<string, unknown>) => {
     try {
-      onSubmit(values);
+      await onSubmit(resolveOtherAnswers(values));
+      reset();
+      goToPage(0);
+      draft.clearDraft();
       toast({
-        title: 'Form submitted successfully',
+        title: t.messages('submitted'),
         status: 'success',
         duration: 3000,
         isClosable: true,
       });
     } catch (error) {
       toast({
-        title: 'Failed to submit form',
+        title: t.messages('submitFailed'),
         description: error instanceof Error ? error.message : 'Unknown error',
         status: 'error',
         duration: 5000,
@@ -124,48 +305,391 @@ export const FormRenderer: React.FC<FormRendererProps> = ({ form, onSubmit }) =>
     }
   };
 
-  const renderField = (question: Question) => {
-    const commonProps = {
-      ...register(question.id),
-      placeholder: question.placeholder,
+  const handleStartOver = () => {
+    // Files attached so far belong to no response, so they would never be cleaned up
+    getFileAnswerIds(getValues()).forEach((id) =>
+      files.deleteFile(id).catch((error) => console.error('Failed to delete file:', error))
+    );
+    draft.clearDraft();
+    reset();
+    goToPage(0);
+  };
+
+  const renderOtherInput = (question: Question) => {
+    if (!question.allowOther || !isOtherSelected(watch(question.id))) return null;
+
+    return (
+      <Input
+        {...register(otherFieldName(question.id))}
+        id={otherFieldId(question.id)}
+        mt={2}
+        placeholder={t.messages('specifyOther')}
+        aria-label={t.messages('specifyOther')}
+        aria-invalid={!!errors[otherFieldName(question.id)]}
+      />
+    );
+  };
+
+  // Option groups are named by their legend and described like single inputs
+  const getGroupProps = (question: Question) => {
+    const id = fieldId(question.id);
+    const describedBy = [
+      t.question(question).placeholder && `${id}-helptext`,
+      (errors[question.id] || errors[otherFieldName(question.id)]) && `${id}-feedback`,
+    ].filter(Boolean);
+    return {
+      id,
+      'aria-labelledby': `${id}-legend`,
+      'aria-describedby': describedBy.length ? describedBy.join(' ') : undefined,
     };
+  };
+
+  const renderField = (question: Question) => {
+    const options = question.options || [];
 
     switch (question.type) {
       case 'text':
-        return <Input {...commonProps} type="text" />;
+        return <Input {...register(question.id)} type="text" />;
 
       case 'number':
-        return <Input {...commonProps} type="number" />;
+        return <Input {...register(question.id)} type="number" />;
+
+      case 'calculated':
+        return (
+          <Input
+            value={calculatedValues[question.id] ?? ''}
+            placeholder={t.messages('calculatedPlaceholder')}
+            isReadOnly
+            variant="filled"
+          />
+        );
+
+      case 'select':
+        return (
+          <>
+            <Select {...register(question.id)} placeholder={t.messages('selectPlaceholder')}>
+              {options.map((option) => (
+                <option key={option.id} value={option.label}>
+                  {t.optionLabel(question, option)}
+                </option>
+              ))}
+              {question.allowOther && (
+                <option value={OTHER_OPTION_VALUE}>{t.messages('other')}</option>
+              )}
+            </Select>
+            {renderOtherInput(question)}
+          </>
+        );
+
+      case 'radio':
+        return (
+          <>
+            <Controller
+              name={question.id}
+              control={control}
+              render={({ field }) => (
+                <RadioGroup
+                  {...getGroupProps(question)}
+                  name={field.name}
+                  value={(field.value as string) || ''}
+                  onChange={field.onChange}
+                >
+                  <Stack spacing={2}>
+                    {options.map((option) => (
+                      <Radio key={option.id} value={option.label} onBlur={field.onBlur}>
+                        {t.optionLabel(question, option)}
+                      </Radio>
+                    ))}
+                    {question.allowOther && (
+                      <Radio value={OTHER_OPTION_VALUE} onBlur={field.onBlur}>
+                        {t.messages('other')}
+                      </Radio>
+                    )}
+                  </Stack>
+                </RadioGroup>
+              )}
+            />
+            {renderOtherInput(question)}
+          </>
+        );
+
+      case 'checkbox':
+        return (
+          <>
+            <Controller
+              name={question.id}
+              control={control}
+              render={({ field }) => (
+                <CheckboxGroup
+                  value={(field.value as string[]) || []}
+                  onChange={field.onChange}
+                >
+                  <Stack spacing={2} role="group" {...getGroupProps(question)}>
+                    {options.map((option) => (
+                      <Checkbox
+                        key={option.id}
+                        id={`${fieldId(question.id)}-${option.id}`}
+                        value={option.label}
+                        isRequired={false}
+                        onBlur={field.onBlur}
+                      >
+                        {t.optionLabel(question, option)}
+                      </Checkbox>
+                    ))}
+                    {question.allowOther && (
+                      <Checkbox
+                        id={`${fieldId(question.id)}-${OTHER_OPTION_VALUE}`}
+                        value={OTHER_OPTION_VALUE}
+                        isRequired={false}
+                        onBlur={field.onBlur}
+                      >
+                        {t.messages('other')}
+                      </Checkbox>
+                    )}
+                  </Stack>
+                </CheckboxGroup>
+              )}
+            />
+            {renderOtherInput(question)}
+          </>
+        );
+
+      case 'file':
+        return (
+          <Controller
+            name={question.id}
+            control={control}
+            render={({ field }) => (
+              <FileUploadField
+                question={question}
+                value={(field.value as FileAnswer[]) || []}
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+                fileStore={files}
+                messages={t.messages}
+                groupProps={getGroupProps(question)}
+              />
+            )}
+          />
+        );
+
+      case 'rating':
+        return (
+          <Controller
+            name={question.id}
+            control={control}
+            render={({ field }) => (
+              <RatingField
+                question={question}
+                value={field.value}
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+                messages={t.messages}
+                groupProps={getGroupProps(question)}
+              />
+            )}
+          />
+        );
+
+      case 'scale':
+        return (
+          <Controller
+            name={question.id}
+            control={control}
+            render={({ field }) => (
+              <ScaleField
+                question={t.question(question)}
+                value={field.value}
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+                groupProps={getGroupProps(question)}
+              />
+            )}
+          />
+        );
+
+      case 'matrix':
+        return (
+          <Controller
+            name={question.id}
+            control={control}
+            render={({ field }) => (
+              <MatrixField
+                question={question}
+                value={field.value}
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+                rowLabel={(row) => t.rowLabel(question, row)}
+                columnLabel={(column) => t.optionLabel(question, column)}
+                groupProps={getGroupProps(question)}
+              />
+            )}
+          />
+        );
 
       default:
         return null;
     }
   };
 
+  const theme = form.theme;
+  const logoUrl = theme?.logoUrl && isSafeLogoUrl(theme.logoUrl) ? theme.logoUrl.trim() : undefined;
+  const background =
+    theme?.backgroundColor && isHexColor(theme.backgroundColor) ? theme.backgroundColor : undefined;
+
+  // The theme overrides Chakra's variables on this box only, so the surrounding app keeps its look
   return (
-    <Container maxW="container.md" py={8}>
-      <VStack spacing={6} align="stretch">
-        <form onSubmit={handleSubmit(handleFormSubmit)}>
-          <VStack spacing={4} align="stretch">
-            {form.questions.map((question) => (
-              <FormControl
-                key={question.id}
-                isInvalid={!!errors[question.id]}
-              >
-                <FormLabel>{question.label}</FormLabel>
-                {renderField(question)}
-                <FormErrorMessage>
-                  {errors[question.id]?.message as string}
-                </FormErrorMessage>
-              </FormControl>
-            ))}
-
-            <Button type="submit" colorScheme="blue" mt={4}>
-              Submit
-            </Button>
-          </VStack>
-        </form>
-      </VStack>
-    </Container>
+    <Box sx={getThemeCssVars(theme)} bg={background} fontFamily="body" lang={t.locale}>
+      <Container maxW="container.md" py={8}>
+        <VStack spacing={6} align="stretch">
+          {logoUrl && (
+            <Image
+              src={logoUrl}
+              alt={t.title ? `${t.title} logo` : 'Logo'}
+              maxH="80px"
+              maxW="240px"
+              objectFit="contain"
+            />
+          )}
+
+          {t.title && <Heading size="lg">{t.title}</Heading>}
+
+          {draft.restoredDraft && (
+            <Alert status="info" borderRadius="md">
+              <AlertIcon />
+              <AlertDescription flex={1}>
+                {t.messages('draftRestored', {
+                  date: new Date(draft.restoredDraft.savedAt).toLocaleString(t.locale),
+                })}
+              </AlertDescription>
+              <Button size="sm" variant="outline" ml={3} flexShrink={0} onClick={handleStartOver}>
+                {t.messages('startOver')}
+              </Button>
+            </Alert>
+          )}
+
+          {navigablePages.length > 1 && (
+            <VStack spacing={1} align="stretch">
+              <Text fontSize="sm" color="gray.500">
+                {t.messages('pageProgress', { page: position + 1, total: navigablePages.length })}
+              </Text>
+              <Progress
+                value={((position + 1) / navigablePages.length) * 100}
+                size="sm"
+                borderRadius="full"
+                aria-label="Form progress"
+              />
+            </VStack>
+          )}
+
+          {!!form.pages?.length && currentPage && (
+            <VStack spacing={1} align="stretch">
+              <Heading size="md">{t.page(currentPage.page).title}</Heading>
+              {currentPage.page.description && (
+                <Text color="gray.600">{t.page(currentPage.page).description}</Text>
+              )}
+            </VStack>
+          )}
+
+          {showErrorSummary && invalidFields.length > 0 && (
+            <Box
+              p={4}
+              borderWidth="2px"
+              borderColor="red.500"
+              borderRadius="md"
+              aria-labelledby="form-error-summary"
+              role="region"
+            >
+              <Heading as="h2" size="sm" mb={2} id="form-error-summary">
+                {t.messages('errorSummary')}
+              </Heading>
+              <UnorderedList spacing={1}>
+                {invalidFields.map((field) => (
+                  <ListItem key={field.name}>
+                    <Link
+                      href={`#${field.id}`}
+                      color="red.600"
+                      textDecoration="underline"
+                      onClick={(e: React.MouseEvent) => {
+                        e.preventDefault();
+                        focusField(field.id);
+                      }}
+                    >
+                      {t.question(field.question).label}: {errors[field.name]?.message as string}
+                    </Link>
+                  </ListItem>
+                ))}
+              </UnorderedList>
+            </Box>
+          )}
+
+          <form
+            noValidate
+            onSubmit={
+              isLastPage
+                ? handleSubmit(handleFormSubmit, handleInvalid)
+                : (e: React.FormEvent) => {
+                    e.preventDefault();
+                    handleNext();
+                  }
+            }
+          >
+            <VStack spacing={4} align="stretch">
+              {currentQuestions.map((question) => {
+                const { label, placeholder: helpText } = t.question(question);
+                const isGroup = GROUP_QUESTION_TYPES.includes(question.type);
+                return (
+                  <FormControl
+                    key={question.id}
+                    id={fieldId(question.id)}
+                    as={isGroup ? 'fieldset' : undefined}
+                    isRequired={!!question.validation?.required && question.type !== 'calculated'}
+                    isInvalid={!!(errors[question.id] || errors[otherFieldName(question.id)])}
+                  >
+                    {isGroup ? (
+                      <Text
+                        as="legend"
+                        id={`${fieldId(question.id)}-legend`}
+                        fontWeight="medium"
+                        mb={2}
+                      >
+                        {label}
+                        <RequiredIndicator />
+                      </Text>
+                    ) : (
+                      <FormLabel>{label}</FormLabel>
+                    )}
+                    {renderField(question)}
+                    {helpText && <FormHelperText>{helpText}</FormHelperText>}
+                    <FormErrorMessage>
+                      {(errors[question.id] || errors[otherFieldName(question.id)])?.message as string}
+                    </FormErrorMessage>
+                  </FormControl>
+                );
+              })}
+
+              <HStack justify="space-between" mt={4}>
+                {position > 0 ? (
+                  <Button variant="outline" onClick={handleBack}>
+                    {t.messages('back')}
+                  </Button>
+                ) : (
+                  <span />
+                )}
+                {isLastPage ? (
+                  <Button type="submit" colorScheme="blue" isLoading={isSubmitting}>
+                    {t.submitLabel}
+                  </Button>
+                ) : (
+                  <Button type="submit" colorScheme="blue">
+                    {t.messages('next')}
+                  </Button>
+                )}
+              </HStack>
+            </VStack>
+          </form>
+        </VStack>
+      </Container>
+    </Box>
   );
-}; 
\ No newline at end of file
+};
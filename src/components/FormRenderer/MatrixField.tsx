@@ -0,0 +1,96 @@
+import React from 'react';
+import { Radio, Table, TableContainer, Tbody, Td, Th, Thead, Tr } from '@chakra-ui/react';
+import { MatrixAnswer, Question, QuestionOption } from '../../types/form';
+import { isMatrixAnswer, orderMatrixAnswer } from '../../logic/matrix';
+
+interface MatrixFieldProps {
+  question: Question;
+  value: unknown;
+  onChange: (value: MatrixAnswer) => void;
+  onBlur: () => void;
+  rowLabel: (row: QuestionOption) => string;
+  columnLabel: (column: QuestionOption) => string;
+  // Props naming and describing the group, from the renderer
+  groupProps: React.HTMLAttributes<HTMLElement> & { id: string };
+}
+
+/**
+ * A table with a radio group per row. Each radio is named by its row and
+ * column headers; arrow keys move along a row and Tab moves to the next one.
+ */
+export const MatrixField: React.FC<MatrixFieldProps> = ({
+  question,
+  value,
+  onChange,
+  onBlur,
+  rowLabel,
+  columnLabel,
+  groupProps,
+}) => {
+  const answer = isMatrixAnswer(value) ? value : {};
+  const rows = question.rows || [];
+  const columns = question.options || [];
+  const headerId = (kind: 'row' | 'column', id: string) => `${groupProps.id}-${kind}-${id}`;
+
+  // Answers are keyed by the default-language labels, like choice answers
+  const handleSelect = (row: QuestionOption, column: QuestionOption) => {
+    onChange(orderMatrixAnswer(question, { ...answer, [row.label]: column.label }));
+  };
+
+  return (
+    <TableContainer role="group" {...groupProps} whiteSpace="normal">
+      <Table size="sm">
+        <Thead>
+          <Tr>
+            <Td />
+            {columns.map((column) => (
+              <Th
+                key={column.id}
+                id={headerId('column', column.id)}
+                scope="col"
+                textAlign="center"
+                textTransform="none"
+                letterSpacing="normal"
+                fontSize="sm"
+                fontWeight="medium"
+              >
+                {columnLabel(column)}
+              </Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rows.map((row) => (
+            <Tr key={row.id}>
+              <Th
+                id={headerId('row', row.id)}
+                scope="row"
+                textTransform="none"
+                letterSpacing="normal"
+                fontSize="sm"
+                fontWeight="normal"
+              >
+                {rowLabel(row)}
+              </Th>
+              {columns.map((column) => (
+                <Td key={column.id} textAlign="center">
+                  <Radio
+                    id={`${groupProps.id}-${row.id}-${column.id}`}
+                    name={`${question.id}-${row.id}`}
+                    value={column.label}
+                    isChecked={answer[row.label] === column.label}
+                    onChange={() => handleSelect(row, column)}
+                    onBlur={onBlur}
+                    inputProps={{
+                      'aria-labelledby': `${headerId('row', row.id)} ${headerId('column', column.id)}`,
+                    }}
+                  />
+                </Td>
+              ))}
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </TableContainer>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Box, HStack, Icon, VisuallyHiddenInput } from '@chakra-ui/react';
+import { FaStar } from 'react-icons/fa';
+import { Question } from '../../types/form';
+import { MessageFormatter } from '../../logic/messages';
+import { getScaleRange, getScalePoints } from '../../logic/scales';
+
+interface RatingFieldProps {
+  question: Question;
+  value: unknown;
+  onChange: (value: number) => void;
+  onBlur: () => void;
+  messages: MessageFormatter;
+  // Props naming and describing the group, from the renderer
+  groupProps: React.HTMLAttributes<HTMLElement>;
+}
+
+/**
+ * Stars backed by a native radio group, so arrow keys move between them and
+ * screen readers announce "3 of 5 stars".
+ */
+export const RatingField: React.FC<RatingFieldProps> = ({
+  question,
+  value,
+  onChange,
+  onBlur,
+  messages,
+  groupProps,
+}) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const { max } = getScaleRange(question);
+  // Prefilled answers arrive as strings
+  const selected = value === '' || value === undefined || value === null ? null : Number(value);
+  const highlighted = hovered ?? selected ?? 0;
+
+  return (
+    <HStack
+      role="radiogroup"
+      {...groupProps}
+      spacing={1}
+      onMouseLeave={() => setHovered(null)}
+    >
+      {getScalePoints(question).map((point) => (
+        <Box
+          as="label"
+          key={point}
+          cursor="pointer"
+          onMouseEnter={() => setHovered(point)}
+          sx={{ 'input:focus-visible + svg': { boxShadow: 'outline', borderRadius: 'sm' } }}
+        >
+          <VisuallyHiddenInput
+            type="radio"
+            name={question.id}
+            value={point}
+            checked={selected === point}
+            onChange={() => onChange(point)}
+            onBlur={onBlur}
+            aria-label={messages('ratingValue', { value: point, max })}
+          />
+          <Icon
+            as={FaStar}
+            boxSize={8}
+            p={0.5}
+            color={point <= highlighted ? 'yellow.400' : 'gray.300'}
+            transition="color 0.1s"
+          />
+        </Box>
+      ))}
+    </HStack>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Box, HStack, Text, VStack, VisuallyHiddenInput } from '@chakra-ui/react';
+import { Question } from '../../types/form';
+import { getScalePoints } from '../../logic/scales';
+
+interface ScaleFieldProps {
+  // Translated, so the end labels are in the respondent's language
+  question: Question;
+  value: unknown;
+  onChange: (value: number) => void;
+  onBlur: () => void;
+  // Props naming and describing the group, from the renderer
+  groupProps: React.HTMLAttributes<HTMLElement> & { id: string };
+}
+
+/**
+ * A row of numbered points backed by a native radio group. The end labels
+ * describe the first and last point.
+ */
+export const ScaleField: React.FC<ScaleFieldProps> = ({
+  question,
+  value,
+  onChange,
+  onBlur,
+  groupProps,
+}) => {
+  const points = getScalePoints(question);
+  const { minLabel, maxLabel } = question.scale || {};
+  const minLabelId = `${groupProps.id}-min-label`;
+  const maxLabelId = `${groupProps.id}-max-label`;
+  // Prefilled answers arrive as strings
+  const selected = value === '' || value === undefined || value === null ? null : Number(value);
+
+  const describedBy = (point: number) => {
+    if (point === points[0] && minLabel) return minLabelId;
+    if (point === points[points.length - 1] && maxLabel) return maxLabelId;
+    return undefined;
+  };
+
+  return (
+    <VStack spacing={1} align="stretch">
+      <HStack role="radiogroup" {...groupProps} spacing={1}>
+        {points.map((point) => (
+          <Box as="label" key={point} flex={1} minW="32px" cursor="pointer">
+            <VisuallyHiddenInput
+              type="radio"
+              name={question.id}
+              value={point}
+              checked={selected === point}
+              onChange={() => onChange(point)}
+              onBlur={onBlur}
+              aria-describedby={describedBy(point)}
+            />
+            <Box
+              py={2}
+              textAlign="center"
+              fontWeight="medium"
+              borderWidth="1px"
+              borderRadius="md"
+              borderColor={selected === point ? 'blue.500' : 'gray.300'}
+              bg={selected === point ? 'blue.500' : 'white'}
+              color={selected === point ? 'white' : 'gray.700'}
+              _hover={{ borderColor: 'blue.500' }}
+              sx={{ 'input:focus-visible + &': { boxShadow: 'outline' } }}
+            >
+              {point}
+            </Box>
+          </Box>
+        ))}
+      </HStack>
+      {(minLabel || maxLabel) && (
+        <HStack justify="space-between" fontSize="sm" color="gray.600">
+          <Text id={minLabelId}>{minLabel}</Text>
+          <Text id={maxLabelId} textAlign="right">
+            {maxLabel}
+          </Text>
+        </HStack>
+      )}
+    </VStack>
+  );
+};
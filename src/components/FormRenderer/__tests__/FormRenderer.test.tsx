@@ -0,0 +1,347 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ChakraProvider } from '@chakra-ui/react';
+import { FormRenderer } from '../FormRenderer';
+import { Form } from '../../../types/form';
+import { expectNoAxeViolations } from '../../../test/axe';
+import { createResponseDraftStore } from '../../../services/responseDrafts';
+import { StorageAdapter, createMemoryStorageAdapter } from '../../../services/storage';
+import { createFileStore } from '../../../services/fileStore';
+
+const form: Form = {
+  id: 'f1',
+  title: 'Registration',
+  revision: 1,
+  createdAt: 0,
+  updatedAt: 0,
+  questions: [
+    {
+      id: 'name',
+      type: 'text',
+      label: 'Name',
+      placeholder: 'As written on your ID',
+      validation: { required: true },
+    },
+    { id: 'age', type: 'number', label: 'Age', validation: { min: 18 } },
+    {
+      id: 'plan',
+      type: 'radio',
+      label: 'Plan',
+      placeholder: 'You can change it later',
+      options: [
+        { id: 'o1', label: 'Basic' },
+        { id: 'o2', label: 'Pro' },
+      ],
+      validation: { required: true },
+    },
+    {
+      id: 'topics',
+      type: 'checkbox',
+      label: 'Topics',
+      options: [
+        { id: 'o1', label: 'News' },
+        { id: 'o2', label: 'Offers' },
+      ],
+      allowOther: true,
+    },
+    {
+      id: 'country',
+      type: 'select',
+      label: 'Country',
+      options: [{ id: 'o1', label: 'India' }],
+    },
+  ],
+};
+
+const renderForm = () =>
+  render(
+    <ChakraProvider>
+      <FormRenderer form={form} onSubmit={() => undefined} />
+    </ChakraProvider>
+  );
+
+describe('FormRenderer accessibility', () => {
+  it('links visible help text to its field and marks required fields', () => {
+    renderForm();
+
+    const name = screen.getByRole('textbox', { name: /Name/ });
+    expect(name).toBeRequired();
+    expect(name).toHaveAccessibleDescription('As written on your ID');
+    expect(screen.getByRole('radiogroup', { name: /Plan/ })).toHaveAccessibleDescription(
+      'You can change it later'
+    );
+    expect(screen.getByRole('spinbutton', { name: 'Age' })).not.toBeRequired();
+  });
+
+  it('summarises errors and focuses the first invalid field on submit', async () => {
+    renderForm();
+    fireEvent.change(screen.getByRole('spinbutton', { name: 'Age' }), { target: { value: '12' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    const summary = await screen.findByRole('region', { name: 'Please fix the following' });
+    const links = Array.from(summary.querySelectorAll('a')).map((link) => link.textContent);
+    expect(links).toEqual([
+      'Name: This field is required',
+      'Age: Value must be at least 18',
+      'Plan: This field is required',
+    ]);
+    await waitFor(() => expect(screen.getByRole('textbox', { name: /Name/ })).toHaveFocus());
+
+    fireEvent.click(screen.getByRole('link', { name: /^Plan/ }));
+    expect(screen.getByRole('radio', { name: 'Basic' })).toHaveFocus();
+  });
+
+  it('has no axe violations before and after a failed submit', async () => {
+    const { container } = renderForm();
+    await expectNoAxeViolations(container);
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Other' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await screen.findByRole('region', { name: 'Please fix the following' });
+    await expectNoAxeViolations(container);
+  });
+});
+
+describe('FormRenderer prefill', () => {
+  it('starts from prefilled answers and submits hidden questions without showing them', async () => {
+    const onSubmit = vi.fn();
+    render(
+      <ChakraProvider>
+        <FormRenderer
+          form={{
+            ...form,
+            questions: [
+              ...form.questions,
+              { id: 'source', type: 'hidden', label: 'Campaign source', value: 'direct' },
+            ],
+          }}
+          prefill={{ name: 'Asha', plan: 'Pro', source: 'newsletter' }}
+          onSubmit={onSubmit}
+        />
+      </ChakraProvider>
+    );
+
+    expect(screen.getByRole('textbox', { name: /Name/ })).toHaveValue('Asha');
+    expect(screen.getByRole('radio', { name: 'Pro' })).toBeChecked();
+    expect(screen.queryByText('Campaign source')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+    expect(onSubmit.mock.calls[0][0]).toMatchObject({ name: 'Asha', plan: 'Pro', source: 'newsletter' });
+  });
+});
+
+describe('FormRenderer drafts', () => {
+  it('restores unfinished answers and clears them after submitting', async () => {
+    const drafts = createResponseDraftStore(createMemoryStorageAdapter());
+    const renderWithDrafts = () =>
+      render(
+        <ChakraProvider>
+          <FormRenderer form={form} drafts={drafts} onSubmit={() => undefined} />
+        </ChakraProvider>
+      );
+
+    const first = renderWithDrafts();
+    fireEvent.change(screen.getByRole('textbox', { name: /Name/ }), { target: { value: 'Asha' } });
+    fireEvent.click(screen.getByRole('radio', { name: 'Pro' }));
+    await waitFor(async () => expect(await drafts.getDraft('f1')).not.toBeNull());
+    first.unmount();
+
+    renderWithDrafts();
+    expect(await screen.findByText(/Continue where you left off/)).toBeInTheDocument();
+    expect(screen.getByRole('textbox', { name: /Name/ })).toHaveValue('Asha');
+    expect(screen.getByRole('radio', { name: 'Pro' })).toBeChecked();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(screen.queryByText(/Continue where you left off/)).toBeNull());
+    expect(screen.getByRole('textbox', { name: /Name/ })).toHaveValue('');
+    expect(await drafts.getDraft('f1')).toBeNull();
+  });
+});
+
+describe('FormRenderer file uploads', () => {
+  it('stores picked files, lists them and submits references', async () => {
+    // Keeps Blobs as they are, like IndexedDB
+    const items = new Map<string, unknown>();
+    const storage: StorageAdapter = {
+      getItem: async <T,>(key: string) => (items.get(key) as T) ?? null,
+      setItem: async (key, value) => void items.set(key, value),
+      removeItem: async (key) => void items.delete(key),
+    };
+    const files = createFileStore(storage);
+    const onSubmit = vi.fn();
+    const { container } = render(
+      <ChakraProvider>
+        <FormRenderer
+          form={{
+            ...form,
+            questions: [
+              {
+                id: 'cv',
+                type: 'file',
+                label: 'CV',
+                validation: { required: true, acceptedFileTypes: ['application/pdf'] },
+              },
+            ],
+          }}
+          files={files}
+          onSubmit={onSubmit}
+        />
+      </ChakraProvider>
+    );
+
+    const input = container.querySelector<HTMLInputElement>('input[type="file"]')!;
+    fireEvent.change(input, {
+      target: {
+        files: [
+          new File(['%PDF'], 'cv.pdf', { type: 'application/pdf' }),
+          new File(['hi'], 'notes.txt', { type: 'text/plain' }),
+        ],
+      },
+    });
+
+    expect(await screen.findByText('cv.pdf')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('notes.txt is not an accepted file type');
+    expect(screen.getByRole('button', { name: 'Remove cv.pdf' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+    const [answer] = onSubmit.mock.calls[0][0].cv;
+    expect(answer).toMatchObject({ name: 'cv.pdf', type: 'application/pdf', size: 4 });
+    expect(await files.getFile(answer.id)).toBeInstanceOf(Blob);
+  });
+
+  it('stores files dropped while earlier ones are still being stored, up to the limit', async () => {
+    const items = new Map<string, unknown>();
+    let openGate = () => {};
+    const gate = new Promise<void>((resolve) => (openGate = resolve));
+    const storage: StorageAdapter = {
+      getItem: async <T,>(key: string) => (items.get(key) as T) ?? null,
+      setItem: async (key, value) => {
+        await gate;
+        items.set(key, value);
+      },
+      removeItem: async (key) => void items.delete(key),
+    };
+    const { container } = render(
+      <ChakraProvider>
+        <FormRenderer
+          form={{
+            ...form,
+            questions: [
+              { id: 'docs', type: 'file', label: 'Documents', validation: { maxFiles: 2 } },
+            ],
+          }}
+          files={createFileStore(storage)}
+          onSubmit={vi.fn()}
+        />
+      </ChakraProvider>
+    );
+
+    const input = container.querySelector<HTMLInputElement>('input[type="file"]')!;
+    fireEvent.change(input, { target: { files: [new File(['a'], 'first.pdf')] } });
+    fireEvent.drop(input.parentElement!, {
+      dataTransfer: { files: [new File(['b'], 'second.pdf'), new File(['c'], 'third.pdf')] },
+    });
+    openGate();
+
+    expect(await screen.findByText('second.pdf')).toBeInTheDocument();
+    expect(screen.getByText('first.pdf')).toBeInTheDocument();
+    expect(screen.queryByText('third.pdf')).not.toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Attach at most 2 files');
+    expect(items.size).toBe(2);
+  });
+});
+
+describe('FormRenderer starting over', () => {
+  it('deletes the files of the discarded answers', async () => {
+    const items = new Map<string, unknown>();
+    const files = createFileStore({
+      getItem: async <T,>(key: string) => (items.get(key) as T) ?? null,
+      setItem: async (key, value) => void items.set(key, value),
+      removeItem: async (key) => void items.delete(key),
+    });
+    const attached = await files.putFile(new File(['%PDF'], 'cv.pdf', { type: 'application/pdf' }));
+    const drafts = createResponseDraftStore(createMemoryStorageAdapter());
+    await drafts.saveDraft({
+      formId: 'f1',
+      answers: { cv: [attached] },
+      questionTypes: { cv: 'file' },
+      pageIndex: 0,
+      savedAt: Date.now(),
+    });
+
+    render(
+      <ChakraProvider>
+        <FormRenderer
+          form={{ ...form, questions: [{ id: 'cv', type: 'file', label: 'CV' }] }}
+          files={files}
+          drafts={drafts}
+          onSubmit={vi.fn()}
+        />
+      </ChakraProvider>
+    );
+
+    expect(await screen.findByText('cv.pdf')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Start over' }));
+
+    await waitFor(async () => expect(await files.getFile(attached.id)).toBeNull());
+    expect(screen.queryByText('cv.pdf')).not.toBeInTheDocument();
+  });
+});
+
+describe('FormRenderer ratings, scales and matrices', () => {
+  const surveyForm: Form = {
+    ...form,
+    questions: [
+      { id: 'stars', type: 'rating', label: 'Overall', scale: { min: 1, max: 5 } },
+      {
+        id: 'nps',
+        type: 'scale',
+        label: 'Would you recommend us?',
+        scale: { min: 0, max: 10, minLabel: 'Not likely', maxLabel: 'Very likely' },
+      },
+      {
+        id: 'service',
+        type: 'matrix',
+        label: 'Service',
+        rows: [
+          { id: 'r1', label: 'Speed' },
+          { id: 'r2', label: 'Price' },
+        ],
+        options: [
+          { id: 'c1', label: 'Bad' },
+          { id: 'c2', label: 'Good' },
+        ],
+        validation: { required: true },
+      },
+    ],
+  };
+
+  it('names each choice, requires every matrix row and submits numbers', async () => {
+    const onSubmit = vi.fn();
+    const { container } = render(
+      <ChakraProvider>
+        <FormRenderer form={surveyForm} onSubmit={onSubmit} />
+      </ChakraProvider>
+    );
+
+    fireEvent.click(screen.getByRole('radio', { name: '4 of 5 stars' }));
+    fireEvent.click(screen.getByRole('radio', { name: '7' }));
+    expect(screen.getByRole('radio', { name: '0' })).toHaveAccessibleDescription('Not likely');
+    fireEvent.click(screen.getByRole('radio', { name: 'Speed Good' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    expect(await screen.findByRole('link', { name: 'Service: Answer every row' })).toBeInTheDocument();
+    await expectNoAxeViolations(container);
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Price Bad' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+    expect(onSubmit.mock.calls[0][0]).toEqual({
+      stars: 4,
+      nps: 7,
+      service: { Speed: 'Good', Price: 'Bad' },
+    });
+  });
+});
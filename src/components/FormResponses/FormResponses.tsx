@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Container,
+  VStack,
+  HStack,
+  Text,
+  Spinner,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Badge,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalCloseButton,
+  ModalBody,
+  ModalFooter,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
+  useToast,
+} from '@chakra-ui/react';
+import { FaDownload } from 'react-icons/fa';
+import { FileAnswer, Form, Submission } from '../../types/form';
+import { formService } from '../../services/formService';
+import { fileStore } from '../../services/fileStore';
+import { formatFileSize, isFileAnswer, isFileAnswerList } from '../../logic/fileUpload';
+import { formatMatrixAnswer, isMatrixAnswer } from '../../logic/matrix';
+import { buildResponseTable, toCsv } from '../../logic/responseExport';
+import { createXlsx, XLSX_MIME_TYPE } from '../../utils/xlsx';
+import { downloadFile, toFileName } from '../../utils/download';
+
+type ExportFormat = 'csv' | 'csv-bom' | 'xlsx';
+
+interface FormResponsesProps {
+  form: Form;
+  pageSize?: number;
+}
+
+const formatAnswer = (value: unknown) => {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => (isFileAnswer(item) ? item.name : item));
+    return items.length ? items.join(', ') : '—';
+  }
+  if (isMatrixAnswer(value)) {
+    return Object.keys(value).length ? formatMatrixAnswer(value) : '—';
+  }
+  return value === undefined || value === '' ? '—' : String(value);
+};
+
+export const FormResponses: React.FC<FormResponsesProps> = ({ form, pageSize = 10 }) => {
+  const [submissions, setSubmissions] = useState<Submission[] | null>(null);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Submission | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const toast = useToast();
+
+  useEffect(() => {
+    const loadSubmissions = async () => {
+      try {
+        setSubmissions(await formService.getSubmissions(form.id));
+      } catch (error) {
+        setSubmissions([]);
+        toast({
+          title: 'Failed to load responses',
+          description: error instanceof Error ? error.message : 'Unknown error',
+          status: 'error',
+          duration: 5000,
+          isClosable: true,
+        });
+      }
+    };
+
+    loadSubmissions();
+  }, [form.id, toast]);
+
+  const handleDelete = async (submission: Submission) => {
+    setIsDeleting(true);
+    try {
+      await formService.deleteSubmission(submission.id);
+      setSubmissions((prev) => prev?.filter((s) => s.id !== submission.id) ?? null);
+      setSelected(null);
+    } catch (error) {
+      toast({
+        title: 'Failed to delete response',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // File contents live in the browser that submitted them
+  const handleDownloadFile = async (file: FileAnswer) => {
+    try {
+      const blob = await fileStore.getFile(file.id);
+      if (!blob) {
+        throw new Error('The file is not stored in this browser');
+      }
+      downloadFile(file.name, blob, file.type);
+    } catch (error) {
+      toast({
+        title: 'Failed to download file',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!submissions) return;
+
+    setIsExporting(true);
+    try {
+      // Older revisions name the columns of questions that have since been deleted
+      const revisions = await formService.getRevisions(form.id);
+      const table = buildResponseTable(form, submissions, revisions);
+      const fileName = `${toFileName(form.title)}-responses`;
+
+      if (format === 'xlsx') {
+        downloadFile(
+          `${fileName}.xlsx`,
+          createXlsx([table.headers, ...table.rows], form.title || 'Responses'),
+          XLSX_MIME_TYPE
+        );
+      } else {
+        downloadFile(
+          `${fileName}.csv`,
+          toCsv(table, { bom: format === 'csv-bom' }),
+          'text/csv;charset=utf-8'
+        );
+      }
+    } catch (error) {
+      toast({
+        title: 'Failed to export responses',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!submissions) {
+    return (
+      <Container maxW="container.lg" py={8}>
+        <VStack spacing={4} align="center">
+          <Spinner size="xl" />
+          <Text>Loading responses...</Text>
+        </VStack>
+      </Container>
+    );
+  }
+
+  if (submissions.length === 0) {
+    return (
+      <Container maxW="container.lg" py={8}>
+        <Text color="gray.500">No responses yet.</Text>
+      </Container>
+    );
+  }
+
+  const pageCount = Math.ceil(submissions.length / pageSize);
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageItems = submissions.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  const previewQuestions = form.questions.slice(0, 3);
+
+  // Answers may reference questions that were later removed from the form
+  const answerRows = selected
+    ? [
+        ...form.questions.map((q) => ({ id: q.id, label: q.label, value: selected.answers[q.id] })),
+        ...Object.keys(selected.answers)
+          .filter((id) => !form.questions.some((q) => q.id === id))
+          .map((id) => ({ id, label: `Deleted question (${id})`, value: selected.answers[id] })),
+      ]
+    : [];
+
+  return (
+    <Container maxW="container.lg" py={8}>
+      <VStack spacing={4} align="stretch">
+        <HStack justify="space-between">
+          <Text color="gray.600">
+            {submissions.length} response{submissions.length === 1 ? '' : 's'}
+          </Text>
+          <Menu>
+            <MenuButton as={Button} size="sm" leftIcon={<FaDownload />} isLoading={isExporting}>
+              Export
+            </MenuButton>
+            <MenuList>
+              <MenuItem onClick={() => handleExport('csv')}>CSV</MenuItem>
+              <MenuItem onClick={() => handleExport('csv-bom')}>CSV with UTF-8 BOM (Excel)</MenuItem>
+              <MenuItem onClick={() => handleExport('xlsx')}>Excel workbook (XLSX)</MenuItem>
+            </MenuList>
+          </Menu>
+        </HStack>
+
+        <TableContainer bg="white" borderWidth="1px" borderRadius="lg">
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Submitted</Th>
+                <Th>Revision</Th>
+                {previewQuestions.map((q) => (
+                  <Th key={q.id}>{q.label}</Th>
+                ))}
+                <Th />
+              </Tr>
+            </Thead>
+            <Tbody>
+              {pageItems.map((submission) => (
+                <Tr key={submission.id}>
+                  <Td>{new Date(submission.createdAt).toLocaleString()}</Td>
+                  <Td>
+                    <Badge colorScheme={submission.formRevision === form.revision ? 'green' : 'gray'}>
+                      v{submission.formRevision}
+                    </Badge>
+                  </Td>
+                  {previewQuestions.map((q) => (
+                    <Td key={q.id} maxW="200px" overflow="hidden" textOverflow="ellipsis">
+                      {formatAnswer(submission.answers[q.id])}
+                    </Td>
+                  ))}
+                  <Td textAlign="right">
+                    <Button size="xs" onClick={() => setSelected(submission)}>
+                      View
+                    </Button>
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        </TableContainer>
+
+        {pageCount > 1 && (
+          <HStack justify="space-between">
+            <Button
+              size="sm"
+              onClick={() => setPage(currentPage - 1)}
+              isDisabled={currentPage === 0}
+            >
+              Previous
+            </Button>
+            <Text fontSize="sm" color="gray.600">
+              Page {currentPage + 1} of {pageCount}
+            </Text>
+            <Button
+              size="sm"
+              onClick={() => setPage(currentPage + 1)}
+              isDisabled={currentPage >= pageCount - 1}
+            >
+              Next
+            </Button>
+          </HStack>
+        )}
+      </VStack>
+
+      <Modal isOpen={!!selected} onClose={() => setSelected(null)} size="lg">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Response details</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            {selected && (
+              <VStack spacing={4} align="stretch">
+                <Text fontSize="sm" color="gray.500">
+                  Submitted {new Date(selected.createdAt).toLocaleString()} · Form revision{' '}
+                  {selected.formRevision} · ID {selected.id}
+                </Text>
+                {answerRows.map((row) => (
+                  <Box key={row.id}>
+                    <Text fontWeight="semibold">{row.label}</Text>
+                    {isFileAnswerList(row.value) ? (
+                      <VStack spacing={1} align="flex-start">
+                        {row.value.map((file) => (
+                          <Button
+                            key={file.id}
+                            size="sm"
+                            variant="link"
+                            leftIcon={<FaDownload />}
+                            onClick={() => handleDownloadFile(file)}
+                          >
+                            {file.name} ({formatFileSize(file.size)})
+                          </Button>
+                        ))}
+                      </VStack>
+                    ) : (
+                      <Text>{formatAnswer(row.value)}</Text>
+                    )}
+                  </Box>
+                ))}
+              </VStack>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              colorScheme="red"
+              variant="ghost"
+              mr={3}
+              isLoading={isDeleting}
+              onClick={() => selected && handleDelete(selected)}
+            >
+              Delete
+            </Button>
+            <Button onClick={() => setSelected(null)}>Close</Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </Container>
+  );
+};
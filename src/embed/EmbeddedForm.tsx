@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  AlertTitle,
+  Box,
+  HStack,
+  Spinner,
+  VStack,
+} from '@chakra-ui/react';
+import { Form, FormValues } from '../types/form';
+import { FormRenderer } from '../components/FormRenderer/FormRenderer';
+import { parseFormDefinition } from '../logic/formTransfer';
+import { parsePrefillParams } from '../logic/prefill';
+import { isQuestionValid } from '../validation/questionDefinition';
+import { WidgetMessage, createEmbedMessage, isEmbedMessage } from './protocol';
+
+interface EmbeddedFormProps {
+  widgetId: string;
+  // The page embedding the widget; the iframe's parent unless testing
+  host?: Window;
+}
+
+interface EmbeddedState {
+  form: Form;
+  locale?: string;
+  prefill?: FormValues;
+  // Changes on every 'init' so a replaced form starts with fresh answers
+  key: number;
+}
+
+/**
+ * The widget page: waits for a form from the host page, renders it and
+ * reports back over postMessage.
+ */
+export const EmbeddedForm: React.FC<EmbeddedFormProps> = ({ widgetId, host = window.parent }) => {
+  const [state, setState] = useState<EmbeddedState | null>(null);
+  const [errors, setErrors] = useState<string[] | null>(null);
+  // Answers are only ever sent to the origin that sent the form
+  const hostOriginRef = useRef<string | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const post = useCallback(
+    (message: WidgetMessage) => {
+      if (hostOriginRef.current) {
+        host.postMessage(createEmbedMessage(widgetId, message), hostOriginRef.current);
+      }
+    },
+    [host, widgetId]
+  );
+
+  useEffect(() => {
+    const listener = (event: MessageEvent) => {
+      if (event.source !== host || !isEmbedMessage(event.data) || event.data.widgetId !== widgetId) {
+        return;
+      }
+      if (event.data.type !== 'init') return;
+
+      hostOriginRef.current = event.origin;
+      const result = parseFormDefinition(event.data.form);
+      if (!result.success) {
+        setErrors(result.errors);
+        setState(null);
+        post({ type: 'error', errors: result.errors });
+        return;
+      }
+
+      const definition = result.form;
+      setErrors(null);
+      setState((previous) => ({
+        form: {
+          ...definition,
+          questions: definition.questions.filter((q) => isQuestionValid(q, definition.questions)),
+          id: widgetId,
+          revision: 0,
+          createdAt: 0,
+          updatedAt: 0,
+        },
+        locale: event.data.locale,
+        prefill: parsePrefillParams(definition.questions, event.data.prefill ?? ''),
+        key: (previous?.key ?? 0) + 1,
+      }));
+    };
+
+    window.addEventListener('message', listener);
+    // Carries no data, so any host may hear it
+    host.postMessage(createEmbedMessage(widgetId, { type: 'loaded' }), '*');
+    return () => window.removeEventListener('message', listener);
+  }, [host, widgetId, post]);
+
+  useEffect(() => {
+    if (state) {
+      post({ type: 'ready' });
+    }
+  }, [state, post]);
+
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => {
+      post({ type: 'resize', height: content.getBoundingClientRect().height });
+    });
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [post]);
+
+  return (
+    <Box ref={contentRef}>
+      {errors ? (
+        <Alert status="error" alignItems="flex-start">
+          <AlertIcon />
+          <VStack align="stretch" spacing={1}>
+            <AlertTitle>This form could not be shown</AlertTitle>
+            {errors.map((error) => (
+              <AlertDescription key={error} fontSize="sm">
+                {error}
+              </AlertDescription>
+            ))}
+          </VStack>
+        </Alert>
+      ) : state ? (
+        <FormRenderer
+          key={state.key}
+          form={state.form}
+          locale={state.locale}
+          prefill={state.prefill}
+          onSubmit={(answers) => post({ type: 'submit', answers })}
+          onChange={(answers) => post({ type: 'change', answers })}
+          onValidationError={(fieldErrors) => post({ type: 'validationError', errors: fieldErrors })}
+        />
+      ) : (
+        <HStack justify="center" py={8}>
+          <Spinner />
+        </HStack>
+      )}
+    </Box>
+  );
+};
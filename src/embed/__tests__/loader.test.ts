@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mount } from '../loader';
+import { WidgetMessage, createEmbedMessage } from '../protocol';
+
+const form = {
+  title: 'Newsletter',
+  questions: [{ id: 'email', type: 'text' as const, label: 'Email' }],
+};
+
+const ORIGIN = 'https://forms.example.com';
+
+const fromWidget = (iframe: HTMLIFrameElement, widgetId: string, message: WidgetMessage, origin = ORIGIN) =>
+  window.dispatchEvent(
+    new MessageEvent('message', {
+      data: createEmbedMessage(widgetId, message),
+      origin,
+      source: iframe.contentWindow,
+    })
+  );
+
+describe('embed loader', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('sends the form once the widget has loaded and relays its events', () => {
+    document.body.innerHTML = '<div id="signup"></div>';
+    const onSubmit = vi.fn();
+    const onValidationError = vi.fn();
+    const handle = mount('#signup', {
+      form,
+      locale: 'de',
+      src: `${ORIGIN}/embed.html`,
+      onSubmit,
+      onValidationError,
+    });
+
+    const widgetId = new URL(handle.iframe.src).searchParams.get('widget')!;
+    expect(handle.iframe.parentElement?.id).toBe('signup');
+    expect(handle.iframe.title).toBe('Newsletter');
+
+    const postMessage = vi.spyOn(handle.iframe.contentWindow!, 'postMessage');
+    fromWidget(handle.iframe, widgetId, { type: 'loaded' });
+    expect(postMessage).toHaveBeenCalledWith(
+      createEmbedMessage(widgetId, { type: 'init', form, locale: 'de' }),
+      ORIGIN
+    );
+
+    fromWidget(handle.iframe, widgetId, { type: 'resize', height: 412.4 });
+    expect(handle.iframe.style.height).toBe('413px');
+
+    const errors = [{ questionId: 'email', message: 'This field is required' }];
+    fromWidget(handle.iframe, widgetId, { type: 'validationError', errors });
+    fromWidget(handle.iframe, widgetId, { type: 'submit', answers: { email: 'a@b.co' } });
+    expect(onValidationError).toHaveBeenCalledWith(errors);
+    expect(onSubmit).toHaveBeenCalledWith({ email: 'a@b.co' });
+
+    handle.destroy();
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+
+  it('ignores messages from other origins and other widgets', () => {
+    document.body.innerHTML = '<div id="signup"></div>';
+    const onSubmit = vi.fn();
+    const handle = mount('#signup', { form, src: `${ORIGIN}/embed.html`, onSubmit });
+    const widgetId = new URL(handle.iframe.src).searchParams.get('widget')!;
+
+    fromWidget(handle.iframe, widgetId, { type: 'submit', answers: {} }, 'https://evil.example.com');
+    fromWidget(handle.iframe, 'form-embed-other', { type: 'submit', answers: {} });
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    handle.destroy();
+  });
+
+  it('fails when the target element does not exist', () => {
+    expect(() => mount('#missing', { form })).toThrow('Failed to embed form');
+  });
+});
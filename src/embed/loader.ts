@@ -0,0 +1,124 @@
+import type { FormDefinition } from '../logic/formTransfer';
+import {
+  EMBED_WIDGET_PARAM,
+  EmbedAnswers,
+  EmbedFieldError,
+  EmbedMessage,
+  WidgetMessage,
+  createEmbedMessage,
+  isEmbedMessage,
+} from './protocol';
+
+export interface EmbedOptions {
+  form: FormDefinition;
+  locale?: string;
+  // Query string of prefilled answers, e.g. `location.search` to pass on the page's own
+  prefill?: string;
+  // Address of the widget page; defaults to embed.html next to this script
+  src?: string;
+  title?: string;
+  onReady?: () => void;
+  onChange?: (answers: EmbedAnswers) => void;
+  onSubmit?: (answers: EmbedAnswers) => void;
+  onValidationError?: (errors: EmbedFieldError[]) => void;
+  onError?: (errors: string[]) => void;
+}
+
+export interface EmbedHandle {
+  iframe: HTMLIFrameElement;
+  // Replaces the form, e.g. to switch language; answers are cleared
+  setForm: (form: FormDefinition, locale?: string) => void;
+  destroy: () => void;
+}
+
+// document.currentScript is only set while the script first runs
+const scriptSrc =
+  typeof document !== 'undefined' && document.currentScript instanceof HTMLScriptElement
+    ? document.currentScript.src
+    : undefined;
+
+let widgetCount = 0;
+
+const resolveTarget = (target: string | HTMLElement) => {
+  const element = typeof target === 'string' ? document.querySelector<HTMLElement>(target) : target;
+  if (!element) {
+    throw new Error(`Failed to embed form: no element matches "${target}"`);
+  }
+  return element;
+};
+
+/**
+ * Embeds a form in an iframe inside `target`. The iframe follows the height of
+ * the form, and the callbacks receive the widget's events.
+ */
+export const mount = (target: string | HTMLElement, options: EmbedOptions): EmbedHandle => {
+  const container = resolveTarget(target);
+  const widgetId = `form-embed-${++widgetCount}`;
+  const src = new URL(options.src ?? 'embed.html', scriptSrc ?? window.location.href);
+  src.searchParams.set(EMBED_WIDGET_PARAM, widgetId);
+
+  const iframe = document.createElement('iframe');
+  iframe.src = src.href;
+  iframe.title = options.title ?? options.form.title ?? 'Form';
+  iframe.style.width = '100%';
+  iframe.style.border = '0';
+  iframe.style.display = 'block';
+  container.appendChild(iframe);
+
+  let current = { form: options.form, locale: options.locale, prefill: options.prefill };
+  let isLoaded = false;
+
+  const sendForm = () => {
+    iframe.contentWindow?.postMessage(
+      createEmbedMessage(widgetId, { type: 'init', ...current }),
+      src.origin
+    );
+  };
+
+  const handleMessage = (message: EmbedMessage<WidgetMessage>) => {
+    switch (message.type) {
+      case 'loaded':
+        isLoaded = true;
+        sendForm();
+        break;
+      case 'ready':
+        options.onReady?.();
+        break;
+      case 'resize':
+        iframe.style.height = `${Math.ceil(message.height)}px`;
+        break;
+      case 'change':
+        options.onChange?.(message.answers);
+        break;
+      case 'submit':
+        options.onSubmit?.(message.answers);
+        break;
+      case 'validationError':
+        options.onValidationError?.(message.errors);
+        break;
+      case 'error':
+        options.onError?.(message.errors);
+        break;
+    }
+  };
+
+  const listener = (event: MessageEvent) => {
+    // Only the iframe this call created, served from the expected origin, is listened to
+    if (event.source !== iframe.contentWindow || event.origin !== src.origin) return;
+    if (!isEmbedMessage(event.data) || event.data.widgetId !== widgetId) return;
+    handleMessage(event.data as EmbedMessage<WidgetMessage>);
+  };
+  window.addEventListener('message', listener);
+
+  return {
+    iframe,
+    setForm: (form, locale) => {
+      current = { ...current, form, locale };
+      if (isLoaded) sendForm();
+    },
+    destroy: () => {
+      window.removeEventListener('message', listener);
+      iframe.remove();
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { ChakraProvider, extendTheme } from '@chakra-ui/react';
+import theme from '../theme';
+import { EmbeddedForm } from './EmbeddedForm';
+import { EMBED_WIDGET_PARAM } from './protocol';
+
+// The host page shows through around the form
+const embedTheme = extendTheme(theme, {
+  styles: {
+    global: {
+      body: {
+        bg: 'transparent',
+      },
+    },
+  },
+});
+
+const widgetId = new URLSearchParams(window.location.search).get(EMBED_WIDGET_PARAM) || 'form-embed';
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <ChakraProvider theme={embedTheme}>
+      <EmbeddedForm widgetId={widgetId} />
+    </ChakraProvider>
+  </React.StrictMode>
+);
@@ -0,0 +1,59 @@
+import type { FormDefinition } from '../logic/formTransfer';
+
+// Every message carries these so host pages can ignore unrelated postMessage traffic
+export const EMBED_MESSAGE_SOURCE = 'form-builder-embed';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// Query parameter naming the widget, so a page can tell several embeds apart
+export const EMBED_WIDGET_PARAM = 'widget';
+
+export type EmbedAnswers = Record<string, unknown>;
+
+export interface EmbedFieldError {
+  questionId: string;
+  message: string;
+}
+
+// Host page -> widget
+export type HostMessage =
+  // Shows a form; sending it again replaces the form and clears the answers.
+  // `prefill` is a query string of answers keyed by question alias or id
+  | { type: 'init'; form: FormDefinition; locale?: string; prefill?: string };
+
+// Widget -> host page
+export type WidgetMessage =
+  // The widget page has loaded and waits for 'init'
+  | { type: 'loaded' }
+  // The form from 'init' is rendered
+  | { type: 'ready' }
+  | { type: 'change'; answers: EmbedAnswers }
+  | { type: 'submit'; answers: EmbedAnswers }
+  | { type: 'validationError'; errors: EmbedFieldError[] }
+  // Height of the widget's content in CSS pixels
+  | { type: 'resize'; height: number }
+  // The form from 'init' could not be shown
+  | { type: 'error'; errors: string[] };
+
+export type EmbedMessage<M extends HostMessage | WidgetMessage = HostMessage | WidgetMessage> = M & {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  version: number;
+  widgetId: string;
+};
+
+export const createEmbedMessage = <M extends HostMessage | WidgetMessage>(
+  widgetId: string,
+  message: M
+): EmbedMessage<M> => ({
+  ...message,
+  source: EMBED_MESSAGE_SOURCE,
+  version: EMBED_PROTOCOL_VERSION,
+  widgetId,
+});
+
+export const isEmbedMessage = (data: unknown): data is EmbedMessage =>
+  !!data &&
+  typeof data === 'object' &&
+  (data as EmbedMessage).source === EMBED_MESSAGE_SOURCE &&
+  (data as EmbedMessage).version === EMBED_PROTOCOL_VERSION &&
+  typeof (data as EmbedMessage).widgetId === 'string' &&
+  typeof (data as EmbedMessage).type === 'string';
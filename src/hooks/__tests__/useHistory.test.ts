@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useHistory } from '../useHistory';
+
+describe('useHistory', () => {
+  it('undoes and redoes recorded steps', () => {
+    const { result } = renderHook(() => useHistory('a'));
+
+    act(() => result.current.set('b'));
+    act(() => result.current.set((current) => `${current}c`));
+    expect(result.current.value).toBe('bc');
+
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    expect(result.current.value).toBe('a');
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => result.current.redo());
+    expect(result.current.value).toBe('b');
+    expect(result.current.future).toEqual(['bc']);
+  });
+
+  it('drops the redo stack when a new step is recorded', () => {
+    const { result } = renderHook(() => useHistory(1));
+
+    act(() => result.current.set(2));
+    act(() => result.current.undo());
+    act(() => result.current.set(3));
+
+    expect(result.current.canRedo).toBe(false);
+    expect(result.current.past).toEqual([1]);
+  });
+
+  it('replaces the current value without recording a step', () => {
+    const { result } = renderHook(() => useHistory({ title: 'Draft', revision: 1 }));
+
+    act(() => result.current.set({ title: 'Final', revision: 1 }));
+    act(() => result.current.replace((current) => ({ ...current, revision: 2 })));
+    expect(result.current.value).toEqual({ title: 'Final', revision: 2 });
+    expect(result.current.past).toHaveLength(1);
+
+    act(() => result.current.reset({ title: 'Other', revision: 5 }));
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('keeps at most `limit` steps to undo', () => {
+    const { result } = renderHook(() => useHistory(0, 2));
+
+    [1, 2, 3].forEach((value) => act(() => result.current.set(value)));
+
+    expect(result.current.past).toEqual([1, 2]);
+  });
+});
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Question } from '../types/form';
-import { formService } from '../services/formService';
+import { validateQuestionDefinition } from '../validation/questionDefinition';
 
 interface AutoSaveState {
   isSaving: boolean;
@@ -8,45 +8,36 @@ interface AutoSaveState {
 }
 
 interface UseAutoSaveProps {
-  formId: string;
   onUpdate: (question: Question) => void;
+  onSave: (question: Question) => Promise<void>;
+  // The form's questions, for checking references such as formula inputs
+  questions?: Question[];
   debounceMs?: number;
 }
 
-const validateQuestion = (question: Question): { isValid: boolean; error?: string } => {
-  // Basic validation - required fields
-  if (!question.label?.trim()) {
-    return { isValid: false, error: 'Question title is required' };
-  }
-
-  // Type-specific validation
-  switch (question.type) {
-    case 'number': {
-      if (question.validation?.min !== undefined && question.validation?.max !== undefined) {
-        if (question.validation.min > question.validation.max) {
-          return { isValid: false, error: 'Minimum value cannot be greater than maximum value' };
-        }
-      }
-      break;
-    }
-  }
-
-  return { isValid: true };
-};
-
-export const useAutoSave = ({ formId, onUpdate, debounceMs = 1000 }: UseAutoSaveProps) => {
+export const useAutoSave = ({ onUpdate, onSave, questions, debounceMs = 1000 }: UseAutoSaveProps) => {
   const [state, setState] = useState<AutoSaveState>({
     isSaving: false,
     error: null,
   });
   const saveTimeoutRef = useRef<NodeJS.Timeout>();
   const lastSavedValueRef = useRef<Question | null>(null);
+  const pendingValueRef = useRef<Question | null>(null);
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+  const questionsRef = useRef(questions);
+  questionsRef.current = questions;
 
   useEffect(() => {
     return () => {
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current);
       }
+      // Leaving the builder must not drop the last edit
+      const pending = pendingValueRef.current;
+      if (pending && validateQuestionDefinition(pending, questionsRef.current).isValid) {
+        onSaveRef.current(pending).catch(() => undefined);
+      }
     };
   }, []);
 
@@ -62,12 +53,15 @@ export const useAutoSave = ({ formId, onUpdate, debounceMs = 1000 }: UseAutoSave
     // Don't save if the value hasn't changed from the last saved value
     if (lastSavedValueRef.current && 
         JSON.stringify(lastSavedValueRef.current) === JSON.stringify(updatedQuestion)) {
+      pendingValueRef.current = null;
       return;
     }
+    pendingValueRef.current = updatedQuestion;
 
     // Schedule the save
     saveTimeoutRef.current = setTimeout(async () => {
-      const validation = validateQuestion(updatedQuestion);
+      pendingValueRef.current = null;
+      const validation = validateQuestionDefinition(updatedQuestion, questionsRef.current);
       if (!validation.isValid) {
         setState(prev => ({ ...prev, error: validation.error || 'Invalid question' }));
         return;
@@ -75,7 +69,7 @@ export const useAutoSave = ({ formId, onUpdate, debounceMs = 1000 }: UseAutoSave
 
       setState(prev => ({ ...prev, isSaving: true, error: null }));
       try {
-        await formService.saveQuestion(formId, updatedQuestion);
+        await onSaveRef.current(updatedQuestion);
         lastSavedValueRef.current = updatedQuestion;
         setState(prev => ({
           ...prev,
@@ -90,10 +84,10 @@ export const useAutoSave = ({ formId, onUpdate, debounceMs = 1000 }: UseAutoSave
         }));
       }
     }, debounceMs);
-  }, [formId, onUpdate, debounceMs]);
+  }, [onUpdate, debounceMs]);
 
   return {
     ...state,
     debouncedSave,
   };
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+type Updater<T> = T | ((current: T) => T);
+
+const resolve = <T>(updater: Updater<T>, current: T): T =>
+  typeof updater === 'function' ? (updater as (current: T) => T)(current) : updater;
+
+/**
+ * Keeps a value together with its undo and redo stacks. `set` records a new
+ * step, `replace` changes the current value without recording one, and
+ * `reset` starts a fresh history.
+ */
+export const useHistory = <T>(initialValue: T, limit = 100) => {
+  const [state, setState] = useState<HistoryState<T>>({
+    past: [],
+    present: initialValue,
+    future: [],
+  });
+
+  const set = useCallback((updater: Updater<T>) => {
+    setState(({ past, present }) => ({
+      past: [...past, present].slice(-limit),
+      present: resolve(updater, present),
+      future: [],
+    }));
+  }, [limit]);
+
+  const replace = useCallback((updater: Updater<T>) => {
+    setState((prev) => ({ ...prev, present: resolve(updater, prev.present) }));
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(({ past, present, future }) => {
+      if (past.length === 0) return { past, present, future };
+      return {
+        past: past.slice(0, -1),
+        present: past[past.length - 1],
+        future: [present, ...future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(({ past, present, future }) => {
+      if (future.length === 0) return { past, present, future };
+      return {
+        past: [...past, present],
+        present: future[0],
+        future: future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    replace,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    past: state.past,
+    future: state.future,
+  };
+};
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Form } from '../types/form';
+import {
+  ResponseDraft,
+  ResponseDraftStore,
+  createResponseDraft,
+  isDraftCompatible,
+} from '../services/responseDrafts';
+
+interface UseResponseDraftProps {
+  form: Form;
+  // Drafts are off without a store
+  store?: ResponseDraftStore;
+  onRestore: (draft: ResponseDraft) => void;
+}
+
+/**
+ * Loads the respondent's draft for a form once and hands it to `onRestore`.
+ * Drafts that no longer fit the form are deleted instead.
+ */
+export const useResponseDraft = ({ form, store, onRestore }: UseResponseDraftProps) => {
+  const [restoredDraft, setRestoredDraft] = useState<ResponseDraft | null>(null);
+  const formRef = useRef(form);
+  formRef.current = form;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    if (!store) return;
+    let isCancelled = false;
+
+    const loadDraft = async () => {
+      try {
+        const draft = await store.getDraft(formRef.current.id);
+        if (isCancelled || !draft) return;
+        if (isDraftCompatible(draft, formRef.current)) {
+          setRestoredDraft(draft);
+          onRestoreRef.current(draft);
+        } else {
+          await store.clearDraft(draft.formId);
+        }
+      } catch (error) {
+        console.error('Failed to load draft:', error);
+      }
+    };
+
+    loadDraft();
+    return () => {
+      isCancelled = true;
+    };
+  }, [store, form.id]);
+
+  // Called on every edit; a form without answers leaves no draft behind
+  const saveDraft = useCallback(
+    async (values: Record<string, unknown>, pageIndex: number) => {
+      if (!store) return;
+      try {
+        const draft = createResponseDraft(formRef.current, values, pageIndex);
+        await (draft ? store.saveDraft(draft) : store.clearDraft(formRef.current.id));
+      } catch (error) {
+        console.error('Failed to save draft:', error);
+      }
+    },
+    [store]
+  );
+
+  const clearDraft = useCallback(async () => {
+    setRestoredDraft(null);
+    if (!store) return;
+    try {
+      await store.clearDraft(formRef.current.id);
+    } catch (error) {
+      console.error('Failed to clear draft:', error);
+    }
+  }, [store]);
+
+  return { restoredDraft, saveDraft, clearDraft };
+};
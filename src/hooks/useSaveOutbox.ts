@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Form } from '../types/form';
+import { formService, FormConflictError } from '../services/formService';
+import { OutboxEntry, SaveOutbox, getRetryDelay, saveOutbox } from '../services/saveOutbox';
+
+export type SyncStatus = 'idle' | 'saving' | 'offline' | 'failed' | 'conflict';
+
+interface UseSaveOutboxProps {
+  formId: string | undefined;
+  // Revision the next write is based on; null until the form is loaded
+  getRevision: () => number | null;
+  onSaved: (form: Form) => void;
+  outbox?: SaveOutbox;
+}
+
+/**
+ * Sends the builder's saves through the persistent outbox, one at a time and
+ * in order. Failed saves stay queued and are retried with backoff; going
+ * offline pauses the queue until the browser is back online. A conflict stops
+ * the queue until `resolveConflict` is called.
+ */
+export const useSaveOutbox = ({
+  formId,
+  getRevision,
+  onSaved,
+  outbox = saveOutbox,
+}: UseSaveOutboxProps) => {
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [pendingCount, setPendingCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<Form | null>(null);
+
+  const callbacksRef = useRef({ getRevision, onSaved });
+  callbacksRef.current = { getRevision, onSaved };
+  const isFlushingRef = useRef(false);
+  const flushRequestedRef = useRef(false);
+  const isBlockedRef = useRef(false);
+  const attemptRef = useRef(0);
+  const retryTimeoutRef = useRef<NodeJS.Timeout>();
+  const flushRef = useRef<() => Promise<void>>();
+
+  const send = (entry: OutboxEntry, revision: number) =>
+    entry.kind === 'form'
+      ? formService.updateForm({ ...entry.form, revision })
+      : formService.saveQuestion(entry.formId, entry.question, revision);
+
+  flushRef.current = async () => {
+    if (!formId || isBlockedRef.current) return;
+    if (isFlushingRef.current) {
+      flushRequestedRef.current = true;
+      return;
+    }
+
+    isFlushingRef.current = true;
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+    }
+
+    try {
+      let entries = await outbox.getEntries(formId);
+      setPendingCount(entries.length);
+
+      while (entries.length > 0) {
+        const revision = callbacksRef.current.getRevision();
+        if (revision === null) return;
+
+        if (!navigator.onLine) {
+          setStatus('offline');
+          return;
+        }
+
+        setStatus('saving');
+        try {
+          const savedForm = await send(entries[0], revision);
+          await outbox.remove(entries[0].id);
+          attemptRef.current = 0;
+          setError(null);
+          callbacksRef.current.onSaved(savedForm);
+        } catch (saveError) {
+          if (saveError instanceof FormConflictError) {
+            isBlockedRef.current = true;
+            setConflict(saveError.current);
+            setStatus('conflict');
+            return;
+          }
+
+          setStatus('failed');
+          setError(saveError instanceof Error ? saveError.message : 'Failed to save');
+          retryTimeoutRef.current = setTimeout(
+            () => flushRef.current?.(),
+            getRetryDelay(attemptRef.current++)
+          );
+          return;
+        }
+
+        entries = await outbox.getEntries(formId);
+        setPendingCount(entries.length);
+      }
+
+      setStatus('idle');
+    } finally {
+      isFlushingRef.current = false;
+      // A save queued while the last request was finishing still needs sending
+      if (flushRequestedRef.current) {
+        flushRequestedRef.current = false;
+        flushRef.current?.();
+      }
+    }
+  };
+
+  const flush = useCallback(() => flushRef.current?.() ?? Promise.resolve(), []);
+
+  const enqueue = useCallback(
+    async (entry: Parameters<SaveOutbox['add']>[0]) => {
+      await outbox.add(entry);
+      setPendingCount((await outbox.getEntries(entry.formId)).length);
+      flush();
+    },
+    [outbox, flush]
+  );
+
+  // Skips the backoff wait, e.g. from a "Retry now" button
+  const retryNow = useCallback(() => {
+    attemptRef.current = 0;
+    flush();
+  }, [flush]);
+
+  // Drops every queued save for the form and lets new saves through again
+  const resolveConflict = useCallback(async () => {
+    if (formId) {
+      await outbox.clear(formId);
+    }
+    isBlockedRef.current = false;
+    setConflict(null);
+    setPendingCount(0);
+    setStatus('idle');
+  }, [formId, outbox]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      attemptRef.current = 0;
+      flush();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+      }
+    };
+  }, [flush]);
+
+  return {
+    status,
+    pendingCount,
+    error,
+    conflict,
+    enqueue,
+    flush,
+    retryNow,
+    resolveConflict,
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../../types/form';
+import { checkNewFiles, formatFileSize, matchesFileType } from '../fileUpload';
+import { createQuestionSchema } from '../../validation/questionSchema';
+
+const question: Question = {
+  id: 'cv',
+  type: 'file',
+  label: 'CV',
+  validation: {
+    required: true,
+    acceptedFileTypes: ['application/pdf', 'image/*'],
+    maxFileSize: 1024 * 1024,
+    maxFiles: 2,
+  },
+};
+
+const file = (name: string, type: string, size = 1000) => ({ name, type, size });
+
+describe('file uploads', () => {
+  it('matches exact and wildcard MIME types', () => {
+    expect(matchesFileType('image/png', ['image/*'])).toBe(true);
+    expect(matchesFileType('application/pdf', ['APPLICATION/PDF'])).toBe(true);
+    expect(matchesFileType('text/plain', ['application/pdf', 'image/*'])).toBe(false);
+    expect(matchesFileType('text/plain', undefined)).toBe(true);
+  });
+
+  it('formats sizes for people', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5 MB');
+  });
+
+  it('refuses files of the wrong type, too large, or beyond the file limit', () => {
+    const result = checkNewFiles(question, 1, [
+      file('notes.txt', 'text/plain'),
+      file('scan.png', 'image/png', 2 * 1024 * 1024),
+      file('cv.pdf', 'application/pdf'),
+      file('photo.jpg', 'image/jpeg'),
+    ]);
+
+    expect(result.accepted.map((f) => f.name)).toEqual(['cv.pdf']);
+    expect(result.errors).toEqual([
+      'notes.txt is not an accepted file type',
+      'scan.png is larger than 1 MB',
+      'Attach at most 2 files',
+    ]);
+  });
+
+  it('validates submitted file references', () => {
+    const schema = createQuestionSchema(question);
+    const ref = (name: string, type: string, size = 1000) => ({ id: name, name, type, size });
+
+    expect(schema.safeParse([ref('cv.pdf', 'application/pdf')]).success).toBe(true);
+    expect(schema.safeParse([]).success).toBe(false);
+    const pdfs = ['a.pdf', 'b.pdf', 'c.pdf'].map((name) => ref(name, 'application/pdf'));
+    expect(schema.safeParse(pdfs).success).toBe(false);
+    expect(schema.safeParse([ref('run.exe', 'application/x-msdownload')]).success).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createColorPalette,
+  getContrastRatio,
+  getThemeCssVars,
+  isSafeLogoUrl,
+} from '../formTheme';
+
+describe('form theme', () => {
+  it('builds a palette around the primary color', () => {
+    const palette = createColorPalette('#3366cc');
+
+    expect(palette[500]).toBe('#3366cc');
+    expect(palette[50]).toBe('#eff3fb');
+    expect(palette[900]).toBe('#142952');
+  });
+
+  it('maps theme settings onto scoped Chakra variables', () => {
+    const vars = getThemeCssVars({ primaryColor: '#3366cc', fontFamily: 'serif', borderRadius: 'none' });
+
+    expect(vars['--chakra-colors-blue-500']).toBe('#3366cc');
+    expect(vars['--chakra-fonts-body']).toMatch(/^Georgia/);
+    expect(vars['--chakra-fonts-heading']).toBe(vars['--chakra-fonts-body']);
+    expect(vars['--chakra-radii-md']).toBe('0');
+  });
+
+  it('ignores missing and malformed settings', () => {
+    expect(getThemeCssVars(undefined)).toEqual({});
+    expect(getThemeCssVars({ primaryColor: 'red', submitLabel: 'Send' })).toEqual({});
+  });
+
+  it('measures contrast as WCAG does', () => {
+    expect(getContrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(getContrastRatio('#ffffff', '#ffffff')).toBe(1);
+  });
+
+  it('only accepts web and inline image logos', () => {
+    expect(isSafeLogoUrl('https://example.com/logo.png')).toBe(true);
+    expect(isSafeLogoUrl('data:image/png;base64,AAAA')).toBe(true);
+    expect(isSafeLogoUrl('javascript:alert(1)')).toBe(false);
+    expect(isSafeLogoUrl('data:text/html,<p>')).toBe(false);
+  });
+});
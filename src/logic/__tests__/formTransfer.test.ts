@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { Form } from '../../types/form';
+import { exportFormJson, parseFormImport } from '../formTransfer';
+import { createAnswerJsonSchema } from '../answerJsonSchema';
+
+const form: Form = {
+  id: 'f1',
+  title: 'Intake',
+  revision: 3,
+  createdAt: 0,
+  updatedAt: 0,
+  questions: [
+    { id: 'name', type: 'text', label: 'Name', validation: { required: true, maxLength: 20 } },
+    { id: 'age', type: 'number', label: 'Age', validation: { min: 18 } },
+    {
+      id: 'colour',
+      type: 'checkbox',
+      label: 'Colours',
+      options: [{ id: 'o1', label: 'Red' }, { id: 'o2', label: 'Blue' }],
+      validation: { maxSelections: 1 },
+    },
+  ],
+};
+
+describe('form import/export', () => {
+  it('round-trips an exported form', () => {
+    const result = parseFormImport(exportFormJson(form));
+
+    expect(result).toEqual({
+      success: true,
+      form: { title: 'Intake', questions: form.questions },
+    });
+  });
+
+  it('round-trips the form theme and rejects malformed colors', () => {
+    const theme = { primaryColor: '#2f855a', fontFamily: 'serif' as const, submitLabel: 'Send' };
+    const result = parseFormImport(exportFormJson({ ...form, theme }));
+    expect(result.success && result.form.theme).toEqual(theme);
+
+    const exported = JSON.parse(exportFormJson({ ...form, theme }));
+    exported.form.theme.primaryColor = 'green';
+    const invalid = parseFormImport(JSON.stringify(exported));
+    expect(!invalid.success && invalid.errors).toEqual([
+      'form.theme.primaryColor: Expected a color like #3182ce',
+    ]);
+  });
+
+  it('reports invalid JSON', () => {
+    const result = parseFormImport('{ nope');
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors[0]).toMatch(/not valid JSON/);
+  });
+
+  it('reports structural problems with their path', () => {
+    const exported = JSON.parse(exportFormJson(form));
+    exported.form.questions[1].type = 'date';
+    delete exported.form.questions[2].label;
+
+    const result = parseFormImport(JSON.stringify(exported));
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual([
+      expect.stringMatching(/^form\.questions\.1\.type: /),
+      'form.questions.2.label: Required',
+    ]);
+  });
+
+  it('reports duplicate question ids', () => {
+    const exported = JSON.parse(exportFormJson(form));
+    exported.form.questions[2].id = 'name';
+
+    const result = parseFormImport(JSON.stringify(exported));
+    expect(!result.success && result.errors).toEqual([
+      'form.questions.2.id: Duplicate question id "name"',
+    ]);
+  });
+
+  it('rejects files from a newer format version', () => {
+    const exported = JSON.parse(exportFormJson(form));
+    exported.version = 99;
+
+    const result = parseFormImport(JSON.stringify(exported));
+    expect(!result.success && result.errors[0]).toMatch(/^version: Exported by a newer version/);
+  });
+});
+
+describe('createAnswerJsonSchema', () => {
+  it('derives properties from question types and rules', () => {
+    const schema = createAnswerJsonSchema(form);
+
+    expect(schema.required).toEqual(['name']);
+    expect(schema.properties).toMatchObject({
+      name: { title: 'Name', type: 'string', minLength: 1, maxLength: 20 },
+      age: { anyOf: [{ type: 'number', minimum: 18 }, { const: '' }] },
+      colour: { type: 'array', items: { enum: ['Red', 'Blue'] }, maxItems: 1 },
+    });
+  });
+});
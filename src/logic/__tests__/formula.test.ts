@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../../types/form';
+import { computeCalculatedValues, findFormulaCycle, parseFormula } from '../formula';
+import { validateQuestionDefinition } from '../../validation/questionDefinition';
+
+const questions: Question[] = [
+  { id: 'weight', type: 'number', label: 'Weight' },
+  { id: 'height', type: 'number', label: 'Height (cm)' },
+  { id: 'bmi', type: 'calculated', label: 'BMI', formula: '{weight} / ({Height (cm)} / 100) ^ 2', decimals: 1 },
+  { id: 'price', type: 'number', label: 'Price' },
+  { id: 'qty', type: 'number', label: 'Quantity' },
+  { id: 'total', type: 'calculated', label: 'Total', formula: 'round({price} * {quantity} * 1.2, 2)' },
+];
+
+describe('parseFormula', () => {
+  it('reports syntax errors with their position', () => {
+    expect(parseFormula('{Price} * ')).toEqual({ success: false, error: 'Unexpected end of formula' });
+    expect(parseFormula('2 $ 3')).toMatchObject({ error: 'Unexpected "$" at position 3' });
+    expect(parseFormula('{Price')).toMatchObject({ error: 'Missing "}" for the reference at position 1' });
+    expect(parseFormula('avg(1)')).toMatchObject({ error: expect.stringMatching(/^Unknown function "avg"/) });
+    expect(parseFormula('round(1, 2, 3)')).toMatchObject({ error: 'round() takes 1 or 2 arguments' });
+  });
+
+  it('follows the usual precedence', () => {
+    const values = computeCalculatedValues(
+      [{ id: 'x', type: 'calculated', label: 'X', formula: '-2 ^ 2 + 10 % 4 * 3 - (1 - 4)' }],
+      {}
+    );
+    expect(values.x).toBe(-4 + 6 + 3);
+  });
+});
+
+describe('computeCalculatedValues', () => {
+  it('evaluates formulas against answers referenced by id or label', () => {
+    expect(
+      computeCalculatedValues(questions, { weight: '70', height: '175', price: 9.99, qty: '3' })
+    ).toEqual({ bmi: 22.9, total: 35.96 });
+  });
+
+  it('stays blank until every input is a usable number', () => {
+    expect(computeCalculatedValues(questions, { weight: '70', height: '0', price: '' })).toEqual({
+      bmi: '',
+      total: '',
+    });
+  });
+});
+
+describe('formula references', () => {
+  const circular: Question[] = [
+    { id: 'a', type: 'calculated', label: 'Subtotal', formula: '{Total} - 1' },
+    { id: 'b', type: 'calculated', label: 'Total', formula: '{Subtotal} + 1' },
+  ];
+
+  it('detects circular references', () => {
+    expect(findFormulaCycle(circular[0], circular)?.map((q) => q.label)).toEqual([
+      'Subtotal',
+      'Total',
+      'Subtotal',
+    ]);
+    expect(validateQuestionDefinition(circular[1], circular).error).toBe(
+      'Circular reference: Total → Subtotal → Total'
+    );
+    expect(computeCalculatedValues(circular, {})).toEqual({ a: '', b: '' });
+  });
+
+  it('rejects references to unknown questions', () => {
+    const question: Question = { id: 'c', type: 'calculated', label: 'C', formula: '{Nope} + 1' };
+    expect(validateQuestionDefinition(question, questions).error).toBe(
+      'Formula refers to an unknown question "{Nope}"'
+    );
+  });
+});
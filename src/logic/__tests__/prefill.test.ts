@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../../types/form';
+import { createFormLink, createPrefillUrl, parsePrefillParams } from '../prefill';
+import { validateAlias } from '../../validation/questionDefinition';
+
+const questions: Question[] = [
+  { id: 'q1', type: 'text', label: 'Name', alias: 'name' },
+  { id: 'q2', type: 'number', label: 'Age' },
+  {
+    id: 'q3',
+    type: 'checkbox',
+    label: 'Topics',
+    alias: 'topic',
+    options: [
+      { id: 'o1', label: 'News' },
+      { id: 'o2', label: 'Offers, deals' },
+    ],
+  },
+  { id: 'q4', type: 'radio', label: 'Plan', options: [{ id: 'o1', label: 'Pro' }] },
+  { id: 'q5', type: 'hidden', label: 'Source', alias: 'utm_source' },
+  { id: 'q6', type: 'calculated', label: 'Double', formula: '{Age} * 2' },
+];
+
+describe('prefill', () => {
+  it('reads answers by alias or question id', () => {
+    const values = parsePrefillParams(
+      questions,
+      '?name=Asha&q2=31&topic=news&topic=Offers%2C%20deals&topic=Spam&q4=Basic&utm_source=mail&q6=1'
+    );
+
+    expect(values).toEqual({
+      q1: 'Asha',
+      q2: '31',
+      q3: ['News', 'Offers, deals'],
+      q5: 'mail',
+    });
+  });
+
+  it('builds links that parse back to the same answers', () => {
+    const base = createFormLink('form-1', 'https://forms.example.com/app/?form=old&x=1#top');
+    expect(base).toBe('https://forms.example.com/app/?form=form-1');
+
+    const answers = { q1: 'Asha K', q3: ['Offers, deals'], q5: 'mail', q2: '' };
+    const url = createPrefillUrl(base, questions, answers);
+    expect(url).toBe(
+      'https://forms.example.com/app/?form=form-1&name=Asha+K&topic=Offers%2C+deals&utm_source=mail'
+    );
+    expect(parsePrefillParams(questions, new URL(url).searchParams)).toEqual({
+      q1: 'Asha K',
+      q3: ['Offers, deals'],
+      q5: 'mail',
+    });
+  });
+
+  it('rejects malformed, reserved and clashing URL parameters', () => {
+    expect(validateAlias({ ...questions[1], alias: '2fast' }).isValid).toBe(false);
+    expect(validateAlias({ ...questions[1], alias: 'form' }).error).toContain('reserved');
+    expect(validateAlias({ ...questions[1], alias: 'topic' }, questions).error).toBe(
+      'URL parameter "topic" is already used by another question'
+    );
+    expect(validateAlias({ ...questions[1], alias: 'q1' }, questions).isValid).toBe(false);
+    expect(validateAlias(questions[0], questions).isValid).toBe(true);
+  });
+});
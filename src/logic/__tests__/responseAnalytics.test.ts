@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { Question, Submission } from '../../types/form';
+import {
+  buildHistogram,
+  filterSubmissionsByDate,
+  getCompletionRate,
+  summarizeQuestion,
+} from '../responseAnalytics';
+
+const submission = (createdAt: number, answers: Submission['answers']): Submission => ({
+  id: `s${createdAt}`,
+  formId: 'f1',
+  formRevision: 1,
+  answers,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+const submissions = [
+  submission(1, { age: 20, city: 'Paris', pets: ['Cat'] }),
+  submission(2, { age: 30, city: ' paris ', pets: ['Cat', 'Dog'] }),
+  submission(3, { age: 40, city: '', pets: ['Ferret'] }),
+  submission(4, { age: '', city: 'Rome', pets: [] }),
+];
+
+describe('summarizeQuestion', () => {
+  it('describes number answers', () => {
+    const question: Question = { id: 'age', type: 'number', label: 'Age' };
+    expect(summarizeQuestion(question, submissions)).toMatchObject({
+      kind: 'number',
+      shown: 4,
+      answered: 3,
+      mean: 30,
+      median: 30,
+      min: 20,
+      max: 40,
+    });
+  });
+
+  it('groups text answers and reports the blank rate', () => {
+    const question: Question = { id: 'city', type: 'text', label: 'City' };
+    expect(summarizeQuestion(question, submissions)).toMatchObject({
+      kind: 'text',
+      blankRate: 0.25,
+      topAnswers: [
+        { value: 'Paris', count: 2 },
+        { value: 'Rome', count: 1 },
+      ],
+    });
+  });
+
+  it('counts every option, including unpicked and free-text ones', () => {
+    const question: Question = {
+      id: 'pets',
+      type: 'checkbox',
+      label: 'Pets',
+      options: [{ id: 'o1', label: 'Dog' }, { id: 'o2', label: 'Cat' }, { id: 'o3', label: 'Bird' }],
+    };
+    expect(summarizeQuestion(question, submissions)).toMatchObject({
+      answered: 3,
+      counts: [
+        { value: 'Dog', count: 1 },
+        { value: 'Cat', count: 2 },
+        { value: 'Bird', count: 0 },
+        { value: 'Ferret', count: 1 },
+      ],
+    });
+  });
+});
+
+describe('rating and matrix summaries', () => {
+  it('counts each point of a rating, unpicked ones included', () => {
+    const question: Question = { id: 'stars', type: 'rating', label: 'Stars', scale: { min: 1, max: 3 } };
+    const summary = summarizeQuestion(question, [
+      submission(1, { stars: 3 }),
+      submission(2, { stars: 3 }),
+      submission(3, { stars: 1 }),
+    ]);
+    expect(summary).toMatchObject({ kind: 'number', mean: 7 / 3, median: 3 });
+    expect(summary?.kind === 'number' && summary.histogram.map((bin) => bin.count)).toEqual([1, 0, 2]);
+  });
+
+  it('counts columns per matrix row and treats an empty matrix as blank', () => {
+    const question: Question = {
+      id: 'service',
+      type: 'matrix',
+      label: 'Service',
+      rows: [
+        { id: 'r1', label: 'Speed' },
+        { id: 'r2', label: 'Price' },
+      ],
+      options: [
+        { id: 'c1', label: 'Bad' },
+        { id: 'c2', label: 'Good' },
+      ],
+    };
+    expect(
+      summarizeQuestion(question, [
+        submission(1, { service: { Speed: 'Good', Price: 'Bad' } }),
+        submission(2, { service: { Speed: 'Good' } }),
+        submission(3, { service: {} }),
+      ])
+    ).toMatchObject({
+      kind: 'matrix',
+      answered: 2,
+      rows: [
+        { row: 'Speed', counts: [{ value: 'Bad', count: 0 }, { value: 'Good', count: 2 }] },
+        { row: 'Price', counts: [{ value: 'Bad', count: 1 }, { value: 'Good', count: 0 }] },
+      ],
+    });
+  });
+});
+
+describe('response filters and headline', () => {
+  it('filters by an inclusive date range', () => {
+    expect(filterSubmissionsByDate(submissions, { from: 2, to: 3 }).map((s) => s.createdAt)).toEqual([2, 3]);
+  });
+
+  it('counts responses that answered everything they were shown', () => {
+    const questions: Question[] = [
+      { id: 'age', type: 'number', label: 'Age' },
+      { id: 'pets', type: 'checkbox', label: 'Pets' },
+    ];
+    expect(getCompletionRate(submissions, questions)).toBe(0.75);
+    expect(getCompletionRate([], questions)).toBeNull();
+  });
+
+  it('bins values into equal-width histogram buckets', () => {
+    expect(buildHistogram([1, 2, 3, 4, 5, 6, 7, 8, 9]).map((bin) => bin.count)).toEqual([3, 3, 3]);
+    expect(buildHistogram([5, 5])).toEqual([{ start: 5, end: 5, count: 2 }]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Form, FormRevision, Submission } from '../../types/form';
+import { buildResponseTable, toCsv } from '../responseExport';
+import { crc32 } from '../../utils/zip';
+
+const form: Form = {
+  id: 'f1',
+  title: 'Order',
+  revision: 2,
+  createdAt: 0,
+  updatedAt: 0,
+  questions: [
+    { id: 'name', type: 'text', label: 'Name' },
+    { id: 'extras', type: 'checkbox', label: 'Extras' },
+  ],
+};
+
+const revisions: FormRevision[] = [
+  {
+    id: 'r1',
+    formId: 'f1',
+    revision: 1,
+    createdAt: 0,
+    snapshot: { ...form, revision: 1, questions: [...form.questions, { id: 'size', type: 'text', label: 'Size' }] },
+  },
+];
+
+const submissions: Submission[] = [
+  {
+    id: 's2',
+    formId: 'f1',
+    formRevision: 2,
+    answers: { name: 'Bea', extras: [] },
+    createdAt: Date.UTC(2024, 0, 2),
+    updatedAt: 0,
+  },
+  {
+    id: 's1',
+    formId: 'f1',
+    formRevision: 1,
+    answers: { name: 'Al "the pal", Jr.', extras: ['Milk', 'Sugar'], size: 'L' },
+    createdAt: Date.UTC(2024, 0, 1),
+    updatedAt: 0,
+  },
+];
+
+describe('buildResponseTable', () => {
+  it('keeps columns for deleted questions, labelled from older revisions', () => {
+    const table = buildResponseTable(form, submissions, revisions);
+
+    expect(table.headers).toEqual([
+      'Submission ID',
+      'Submitted at',
+      'Form revision',
+      'Name',
+      'Extras',
+      'Size (deleted)',
+    ]);
+    expect(table.rows.map((row) => row[0])).toEqual(['s1', 's2']);
+    expect(table.rows[0].slice(3)).toEqual(['Al "the pal", Jr.', 'Milk; Sugar', 'L']);
+    expect(table.rows[1].slice(3)).toEqual(['Bea', null, null]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields as RFC 4180 requires', () => {
+    const csv = toCsv(buildResponseTable(form, submissions.slice(1), revisions));
+
+    expect(csv.split('\r\n')).toEqual([
+      'Submission ID,Submitted at,Form revision,Name,Extras,Size (deleted)',
+      's1,2024-01-01T00:00:00.000Z,1,"Al ""the pal"", Jr.",Milk; Sugar,L',
+      '',
+    ]);
+  });
+
+  it('keeps typed text that looks like a formula from running', () => {
+    const csv = toCsv({
+      headers: ['A', 'B', 'C', 'D', 'E', 'F'],
+      rows: [['=HYPERLINK("http://evil.test")', '+1+2', '@SUM(A1)', '\tcmd', -3, '-2.5']],
+    });
+
+    expect(csv.split('\r\n')[1]).toBe(
+      `"'=HYPERLINK(""http://evil.test"")",'+1+2,'@SUM(A1),'\tcmd,-3,-2.5`
+    );
+  });
+
+  it('can start with a UTF-8 byte order mark', () => {
+    expect(toCsv({ headers: ['A'], rows: [] }, { bom: true })).toBe('\uFEFFA\r\n');
+  });
+});
+
+describe('crc32', () => {
+  it('matches the zip checksum of a known input', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { Form } from '../../types/form';
+import { createMessageFormatter, getLocaleChain } from '../messages';
+import {
+  createFormTranslator,
+  findMissingTranslations,
+  getTranslatableStrings,
+  setTranslationValue,
+} from '../translations';
+
+const form: Form = {
+  id: 'f1',
+  title: 'Feedback',
+  revision: 1,
+  createdAt: 0,
+  updatedAt: 0,
+  questions: [
+    {
+      id: 'q1',
+      type: 'radio',
+      label: 'Rating',
+      options: [
+        { id: 'o1', label: 'Good' },
+        { id: 'o2', label: 'Bad' },
+      ],
+      validation: { required: true, message: 'Please rate us' },
+    },
+    { id: 'q2', type: 'text', label: 'Comments', placeholder: 'Anything else?' },
+  ],
+  translations: {
+    de: {
+      title: 'Rückmeldung',
+      questions: { q1: { label: 'Bewertung', options: { o1: 'Gut' } } },
+    },
+    'de-AT': { title: 'Feedback bitte' },
+  },
+};
+
+describe('form translations', () => {
+  it('builds the locale fallback chain', () => {
+    expect(getLocaleChain('de-AT', 'en')).toEqual(['de-AT', 'de', 'en']);
+    expect(getLocaleChain(undefined, 'hi', 'hi')).toEqual(['hi']);
+  });
+
+  it('falls back from region to language to the form texts', () => {
+    const t = createFormTranslator(form, 'de-AT');
+
+    expect(t.title).toBe('Feedback bitte');
+    expect(t.question(form.questions[0]).label).toBe('Bewertung');
+    expect(t.optionLabel(form.questions[0], form.questions[0].options![0])).toBe('Gut');
+    expect(t.optionLabel(form.questions[0], form.questions[0].options![1])).toBe('Bad');
+    expect(t.question(form.questions[0]).validation?.message).toBe('Please rate us');
+    expect(t.submitLabel).toBe('Absenden');
+  });
+
+  it('uses the form texts and English messages for the default locale', () => {
+    const t = createFormTranslator(form);
+
+    expect(t.title).toBe('Feedback');
+    expect(t.messages('pageProgress', { page: 1, total: 3 })).toBe('Page 1 of 3');
+  });
+
+  it('falls back to English messages for languages without built-in texts', () => {
+    expect(createMessageFormatter('fr', 'en')('required')).toBe('This field is required');
+    expect(createMessageFormatter('hi')('next')).toBe('आगे');
+  });
+
+  it('lists missing strings per locale', () => {
+    expect(getTranslatableStrings(form)).toHaveLength(7);
+    expect(findMissingTranslations(form, 'de').map((entry) => entry.path.join('.'))).toEqual([
+      'questions.q1.options.o2',
+      'questions.q1.validationMessage',
+      'questions.q2.label',
+      'questions.q2.placeholder',
+    ]);
+  });
+
+  it('translates matrix rows and scale labels', () => {
+    const survey: Form = {
+      ...form,
+      questions: [
+        {
+          id: 'q3',
+          type: 'matrix',
+          label: 'Service',
+          rows: [{ id: 'r1', label: 'Speed' }],
+          options: [{ id: 'c1', label: 'Good' }],
+        },
+        { id: 'q4', type: 'scale', label: 'Likely', scale: { min: 0, max: 10, maxLabel: 'Very' } },
+      ],
+      translations: {
+        de: { questions: { q3: { rows: { r1: 'Tempo' } }, q4: { maxLabel: 'Sehr' } } },
+      },
+    };
+    expect(getTranslatableStrings(survey).map((entry) => entry.context)).toEqual([
+      'Form title',
+      'Question 1 · Title',
+      'Question 1 · Row 1',
+      'Question 1 · Column 1',
+      'Question 2 · Title',
+      'Question 2 · End label',
+    ]);
+
+    const t = createFormTranslator(survey, 'de');
+    expect(t.rowLabel(survey.questions[0], survey.questions[0].rows![0])).toBe('Tempo');
+    expect(t.question(survey.questions[1]).scale).toMatchObject({ min: 0, max: 10, maxLabel: 'Sehr' });
+  });
+
+  it('drops empty branches when a translation is cleared', () => {
+    const cleared = setTranslationValue(form.translations!.de, ['questions', 'q1', 'options', 'o1'], '');
+    expect(cleared.questions).toEqual({ q1: { label: 'Bewertung' } });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { Question, VisibilityCondition } from '../../types/form';
+import { evaluateCondition, getVisibleQuestionIds } from '../visibility';
+
+const condition = (overrides: Partial<VisibilityCondition>): VisibilityCondition => ({
+  id: 'c1',
+  questionId: 'employed',
+  operator: 'equals',
+  value: 'Yes',
+  ...overrides,
+});
+
+describe('evaluateCondition', () => {
+  it('compares text case-insensitively and numbers numerically', () => {
+    expect(evaluateCondition(condition({}), 'yes')).toBe(true);
+    expect(evaluateCondition(condition({ value: '5' }), 5)).toBe(true);
+    expect(evaluateCondition(condition({ operator: 'greater_than', value: '10' }), '12')).toBe(true);
+    expect(evaluateCondition(condition({ operator: 'less_than', value: '10' }), '')).toBe(false);
+  });
+
+  it('matches checkbox answers by membership', () => {
+    expect(evaluateCondition(condition({ operator: 'contains', value: 'B' }), ['A', 'B'])).toBe(true);
+    expect(evaluateCondition(condition({ operator: 'not_equals', value: 'C' }), ['A', 'B'])).toBe(true);
+    expect(evaluateCondition(condition({ operator: 'is_empty' }), [])).toBe(true);
+  });
+});
+
+describe('getVisibleQuestionIds', () => {
+  const questions: Question[] = [
+    { id: 'employed', type: 'radio', label: 'Employed' },
+    {
+      id: 'size',
+      type: 'number',
+      label: 'Company size',
+      visibility: { combinator: 'and', conditions: [condition({})] },
+    },
+    {
+      id: 'large',
+      type: 'text',
+      label: 'Large company details',
+      visibility: {
+        combinator: 'or',
+        conditions: [condition({ questionId: 'size', operator: 'greater_than', value: '100' })],
+      },
+    },
+  ];
+
+  it('shows dependent questions when their conditions match', () => {
+    const visible = getVisibleQuestionIds(questions, { employed: 'Yes', size: '500' });
+    expect([...visible]).toEqual(['employed', 'size', 'large']);
+  });
+
+  it('treats answers of hidden questions as empty', () => {
+    const visible = getVisibleQuestionIds(questions, { employed: 'No', size: '500' });
+    expect([...visible]).toEqual(['employed']);
+  });
+});
@@ -0,0 +1,179 @@
+import { Form, Question } from '../types/form';
+import { getScaleRange } from './scales';
+
+export type JsonSchema = Record<string, unknown>;
+
+const JSON_SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Blank optional answers are submitted as '' and must stay valid
+const allowBlank = (schema: JsonSchema, blank: JsonSchema): JsonSchema => ({
+  anyOf: [schema, blank],
+});
+
+const textSchema = (question: Question): JsonSchema => {
+  const { required, minLength, maxLength, pattern } = question.validation || {};
+  const schema: JsonSchema = { type: 'string' };
+
+  const effectiveMinLength = Math.max(required ? 1 : 0, minLength ?? 0);
+  if (effectiveMinLength > 0) schema.minLength = effectiveMinLength;
+  if (maxLength !== undefined) schema.maxLength = maxLength;
+  if (pattern) schema.pattern = pattern;
+
+  return required || (effectiveMinLength === 0 && !pattern)
+    ? schema
+    : allowBlank(schema, { type: 'string', maxLength: 0 });
+};
+
+const numberSchema = (question: Question): JsonSchema => {
+  const { required, min, max } = question.validation || {};
+  const schema: JsonSchema = { type: 'number' };
+
+  if (min !== undefined) schema.minimum = min;
+  if (max !== undefined) schema.maximum = max;
+
+  return required ? schema : allowBlank(schema, { const: '' });
+};
+
+const choiceLabels = (question: Question) => (question.options || []).map((option) => option.label);
+
+const singleChoiceSchema = (question: Question): JsonSchema => {
+  const required = question.validation?.required;
+
+  // Free-text "Other" answers can be any string
+  if (question.allowOther) {
+    return required ? { type: 'string', minLength: 1 } : { type: 'string' };
+  }
+
+  const labels = choiceLabels(question);
+  return { type: 'string', enum: required ? labels : [...labels, ''] };
+};
+
+const multiChoiceSchema = (question: Question): JsonSchema => {
+  const { required, minSelections, maxSelections } = question.validation || {};
+  const schema: JsonSchema = {
+    type: 'array',
+    items: question.allowOther ? { type: 'string' } : { type: 'string', enum: choiceLabels(question) },
+    uniqueItems: true,
+  };
+
+  const minItems = Math.max(required ? 1 : 0, minSelections ?? 0);
+  if (minItems > 0) schema.minItems = minItems;
+  if (maxSelections !== undefined) schema.maxItems = maxSelections;
+
+  return schema;
+};
+
+const scaleSchema = (question: Question): JsonSchema => {
+  const { min, max } = getScaleRange(question);
+  const schema: JsonSchema = { type: 'integer', minimum: min, maximum: max };
+  return question.validation?.required ? schema : allowBlank(schema, { const: '' });
+};
+
+// Keyed by row label; a required matrix needs every row
+const matrixSchema = (question: Question): JsonSchema => {
+  const rows = (question.rows || []).map((row) => row.label);
+  const column: JsonSchema = { type: 'string', enum: choiceLabels(question) };
+  return {
+    type: 'object',
+    properties: Object.fromEntries(rows.map((row) => [row, column])),
+    ...(question.validation?.required ? { required: rows } : {}),
+    additionalProperties: false,
+  };
+};
+
+// Files are submitted as references; their content stays in the browser's file store
+const fileSchema = (question: Question): JsonSchema => {
+  const { required, maxFiles, maxFileSize } = question.validation || {};
+  const schema: JsonSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        type: { type: 'string' },
+        size: { type: 'integer', minimum: 0, ...(maxFileSize !== undefined ? { maximum: maxFileSize } : {}) },
+      },
+      required: ['id', 'name', 'type', 'size'],
+      additionalProperties: false,
+    },
+  };
+
+  if (required) schema.minItems = 1;
+  if (maxFiles !== undefined) schema.maxItems = maxFiles;
+
+  return schema;
+};
+
+export const createQuestionJsonSchema = (question: Question): JsonSchema => {
+  let schema: JsonSchema;
+
+  switch (question.type) {
+    case 'text':
+      schema = textSchema(question);
+      break;
+    case 'number':
+      schema = numberSchema(question);
+      break;
+    case 'select':
+    case 'radio':
+      schema = singleChoiceSchema(question);
+      break;
+    case 'checkbox':
+      schema = multiChoiceSchema(question);
+      break;
+    case 'calculated':
+      schema = { ...numberSchema(question), readOnly: true };
+      break;
+    case 'hidden':
+      schema = { type: 'string' };
+      break;
+    case 'file':
+      schema = fileSchema(question);
+      break;
+    case 'rating':
+    case 'scale':
+      schema = scaleSchema(question);
+      break;
+    case 'matrix':
+      schema = matrixSchema(question);
+      break;
+    default:
+      schema = {};
+  }
+
+  return {
+    title: question.label,
+    ...(question.placeholder ? { description: question.placeholder } : {}),
+    ...schema,
+  };
+};
+
+/**
+ * Describes the shape of a form's submitted values as a standard JSON Schema,
+ * so other services can validate `FormValues` without this app.
+ *
+ * Questions with visibility rules may be left out of a submission, so they are
+ * never listed as required.
+ */
+export const createAnswerJsonSchema = (form: Form): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  form.questions.forEach((question) => {
+    properties[question.id] = createQuestionJsonSchema(question);
+    if (question.validation?.required && !question.visibility?.conditions.length) {
+      required.push(question.id);
+    }
+  });
+
+  return {
+    $schema: JSON_SCHEMA_DRAFT,
+    $id: `urn:form-builder:form:${form.id}:revision:${form.revision}`,
+    title: form.title,
+    type: 'object',
+    properties,
+    required,
+    additionalProperties: false,
+  };
+};
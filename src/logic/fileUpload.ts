@@ -0,0 +1,104 @@
+import { FileAnswer, Question } from '../types/form';
+import { MessageFormatter, formatMessage } from './messages';
+
+// Offered as shortcuts in the builder; any MIME type can be typed in
+export const FILE_TYPE_PRESETS: { label: string; types: string[] }[] = [
+  { label: 'Images', types: ['image/*'] },
+  { label: 'PDF', types: ['application/pdf'] },
+  {
+    label: 'Word',
+    types: [
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+  },
+  {
+    label: 'Spreadsheets',
+    types: [
+      'text/csv',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+  },
+];
+
+export const isFileAnswer = (value: unknown): value is FileAnswer =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as FileAnswer).id === 'string' &&
+  typeof (value as FileAnswer).name === 'string';
+
+export const isFileAnswerList = (value: unknown): value is FileAnswer[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isFileAnswer);
+
+// The stored files a set of answers refers to
+export const getFileAnswerIds = (answers: Record<string, unknown>) =>
+  Object.values(answers).flatMap((value) => (isFileAnswerList(value) ? value.map((file) => file.id) : []));
+
+// "image/*" matches any image; an empty list accepts everything
+export const matchesFileType = (type: string, acceptedTypes: string[] | undefined) =>
+  !acceptedTypes?.length ||
+  acceptedTypes.some((accepted) =>
+    accepted.endsWith('/*')
+      ? type.toLowerCase().startsWith(accepted.slice(0, -1).toLowerCase())
+      : type.toLowerCase() === accepted.toLowerCase()
+  );
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${Number(size.toFixed(1))} ${units[unit]}`;
+};
+
+/**
+ * Explains why a file can't be attached to a question, or returns undefined
+ * when it can.
+ */
+export const getFileError = (
+  question: Question,
+  file: Pick<FileAnswer, 'name' | 'type' | 'size'>,
+  messages: MessageFormatter = formatMessage
+) => {
+  const { acceptedFileTypes, maxFileSize } = question.validation || {};
+  if (!matchesFileType(file.type, acceptedFileTypes)) {
+    return messages('fileTypeNotAllowed', { name: file.name });
+  }
+  if (maxFileSize !== undefined && file.size > maxFileSize) {
+    return messages('fileTooLarge', { name: file.name, max: formatFileSize(maxFileSize) });
+  }
+  return undefined;
+};
+
+/**
+ * Splits newly picked files into those that can be added to the ones already
+ * attached and error texts for the rest. Files beyond `maxFiles` are refused.
+ */
+export const checkNewFiles = <F extends Pick<FileAnswer, 'name' | 'type' | 'size'>>(
+  question: Question,
+  attachedCount: number,
+  files: F[],
+  messages: MessageFormatter = formatMessage
+) => {
+  const maxFiles = question.validation?.maxFiles;
+  const accepted: F[] = [];
+  const errors: string[] = [];
+
+  files.forEach((file) => {
+    const error = getFileError(question, file, messages);
+    if (error) {
+      errors.push(error);
+    } else if (maxFiles !== undefined && attachedCount + accepted.length >= maxFiles) {
+      errors.push(messages('maxFiles', { max: maxFiles }));
+    } else {
+      accepted.push(file);
+    }
+  });
+
+  return { accepted, errors: [...new Set(errors)] };
+};
@@ -0,0 +1,113 @@
+import { FormTheme, FormThemeFont, FormThemeRadius } from '../types/form';
+
+export const DEFAULT_PRIMARY_COLOR = '#3182ce';
+export const DEFAULT_BACKGROUND_COLOR = '#ffffff';
+
+export const FORM_THEME_FONTS: { value: FormThemeFont; label: string; stack: string }[] = [
+  {
+    value: 'system',
+    label: 'System',
+    stack: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif",
+  },
+  { value: 'serif', label: 'Serif', stack: "Georgia, Cambria, 'Times New Roman', Times, serif" },
+  { value: 'humanist', label: 'Humanist', stack: "'Gill Sans', 'Gill Sans MT', Calibri, sans-serif" },
+  { value: 'rounded', label: 'Rounded', stack: "'Trebuchet MS', 'Lucida Grande', sans-serif" },
+  { value: 'mono', label: 'Monospace', stack: "SFMono-Regular, Menlo, Consolas, 'Courier New', monospace" },
+];
+
+export const FORM_THEME_RADII: { value: FormThemeRadius; label: string; size: string }[] = [
+  { value: 'none', label: 'Square', size: '0' },
+  { value: 'small', label: 'Small', size: '0.125rem' },
+  { value: 'medium', label: 'Medium', size: '0.375rem' },
+  { value: 'large', label: 'Large', size: '0.75rem' },
+  { value: 'pill', label: 'Pill', size: '9999px' },
+];
+
+// Chakra's components default to the blue scale; these are the steps they read
+const PALETTE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+// Share of white (lighter steps) or black (darker steps) mixed into the primary color
+const PALETTE_MIX: Record<(typeof PALETTE_STEPS)[number], number> = {
+  50: 0.92,
+  100: 0.8,
+  200: 0.6,
+  300: 0.4,
+  400: 0.2,
+  500: 0,
+  600: -0.15,
+  700: -0.3,
+  800: -0.45,
+  900: -0.6,
+};
+
+export const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+// Logos end up in an <img src>; only web and inline image URLs are shown
+export const isSafeLogoUrl = (value: string) => /^(https?:\/\/|data:image\/)/i.test(value.trim());
+
+const toRgb = (hex: string) => [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16));
+
+const toHex = (rgb: number[]) =>
+  `#${rgb.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+export const createColorPalette = (hex: string): Record<string, string> => {
+  const rgb = toRgb(hex);
+  return Object.fromEntries(
+    PALETTE_STEPS.map((step) => {
+      const mix = PALETTE_MIX[step];
+      const target = mix > 0 ? 255 : 0;
+      return [step, toHex(rgb.map((channel) => channel + (target - channel) * Math.abs(mix)))];
+    })
+  );
+};
+
+// WCAG 2.x relative luminance and contrast ratio
+const luminance = (hex: string) => {
+  const [r, g, b] = toRgb(hex).map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const getContrastRatio = (a: string, b: string) => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+export const getFontStack = (font: FormThemeFont | undefined) =>
+  FORM_THEME_FONTS.find((entry) => entry.value === font)?.stack;
+
+export const getRadiusSize = (radius: FormThemeRadius | undefined) =>
+  FORM_THEME_RADII.find((entry) => entry.value === radius)?.size;
+
+/**
+ * Turns a form theme into overrides for Chakra's CSS variables. Set on an
+ * element, they restyle only the components inside it, so a themed form can
+ * sit in the builder without changing the builder's own look.
+ */
+export const getThemeCssVars = (theme: FormTheme | undefined): Record<string, string> => {
+  const vars: Record<string, string> = {};
+  if (!theme) return vars;
+
+  if (theme.primaryColor && isHexColor(theme.primaryColor)) {
+    Object.entries(createColorPalette(theme.primaryColor)).forEach(([step, color]) => {
+      vars[`--chakra-colors-blue-${step}`] = color;
+    });
+  }
+
+  const font = getFontStack(theme.fontFamily);
+  if (font) {
+    vars['--chakra-fonts-body'] = font;
+    vars['--chakra-fonts-heading'] = font;
+  }
+
+  const radius = getRadiusSize(theme.borderRadius);
+  if (radius) {
+    ['sm', 'base', 'md', 'lg'].forEach((size) => {
+      vars[`--chakra-radii-${size}`] = radius;
+    });
+  }
+
+  return vars;
+};
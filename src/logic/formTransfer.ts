@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { Form, Question } from '../types/form';
+
+export const FORM_EXPORT_FORMAT = 'form-builder/form';
+export const FORM_EXPORT_VERSION = 1;
+
+// The portable part of a form; ids, revisions and timestamps belong to the store
+export type FormDefinition = Omit<Form, 'id' | 'revision' | 'createdAt' | 'updatedAt' | 'archived'>;
+
+export interface FormExport {
+  format: typeof FORM_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  form: FormDefinition;
+}
+
+export type FormImportResult =
+  | { success: true; form: FormDefinition }
+  | { success: false; errors: string[] };
+
+export type QuestionParseResult =
+  | { success: true; question: Question }
+  | { success: false; errors: string[] };
+
+const optionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+});
+
+const validationRuleSchema = z.object({
+  required: z.boolean().optional(),
+  minLength: z.number().int().nonnegative().optional(),
+  maxLength: z.number().int().nonnegative().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  pattern: z.string().optional(),
+  minSelections: z.number().int().nonnegative().optional(),
+  maxSelections: z.number().int().nonnegative().optional(),
+  acceptedFileTypes: z.array(z.string()).optional(),
+  maxFileSize: z.number().int().positive().optional(),
+  maxFiles: z.number().int().positive().optional(),
+  message: z.string().optional(),
+});
+
+const visibilityRuleSchema = z.object({
+  combinator: z.enum(['and', 'or']),
+  conditions: z.array(
+    z.object({
+      id: z.string().min(1),
+      questionId: z.string(),
+      operator: z.enum(['equals', 'not_equals', 'greater_than', 'less_than', 'contains', 'is_empty']),
+      value: z.string().optional(),
+    })
+  ),
+});
+
+const questionSchema = z.object({
+  id: z.string().min(1),
+  type: z
+    .enum([
+      'text',
+      'number',
+      'select',
+      'radio',
+      'checkbox',
+      'calculated',
+      'hidden',
+      'file',
+      'rating',
+      'scale',
+      'matrix',
+    ])
+    .nullable(),
+  label: z.string(),
+  placeholder: z.string().optional(),
+  validation: validationRuleSchema.optional(),
+  options: z.array(optionSchema).optional(),
+  allowOther: z.boolean().optional(),
+  scale: z
+    .object({
+      min: z.number().int(),
+      max: z.number().int(),
+      minLabel: z.string().optional(),
+      maxLabel: z.string().optional(),
+    })
+    .optional(),
+  rows: z.array(optionSchema).optional(),
+  visibility: visibilityRuleSchema.optional(),
+  formula: z.string().optional(),
+  decimals: z.number().int().min(0).max(10).optional(),
+  pageId: z.string().optional(),
+  alias: z.string().optional(),
+  value: z.union([z.string(), z.number(), z.array(z.string())]).optional(),
+});
+
+const hexColor = /^#[0-9a-f]{6}$/i;
+
+const translationSchema = z.object({
+  title: z.string().optional(),
+  submitLabel: z.string().optional(),
+  questions: z
+    .record(
+      z.object({
+        label: z.string().optional(),
+        placeholder: z.string().optional(),
+        options: z.record(z.string()).optional(),
+        rows: z.record(z.string()).optional(),
+        minLabel: z.string().optional(),
+        maxLabel: z.string().optional(),
+        validationMessage: z.string().optional(),
+      })
+    )
+    .optional(),
+  pages: z
+    .record(z.object({ title: z.string().optional(), description: z.string().optional() }))
+    .optional(),
+});
+
+const formDefinitionSchema = z
+  .object({
+    title: z.string(),
+    questions: z.array(questionSchema),
+    pages: z
+      .array(
+        z.object({
+          id: z.string().min(1),
+          title: z.string(),
+          description: z.string().optional(),
+        })
+      )
+      .optional(),
+    theme: z
+      .object({
+        primaryColor: z.string().regex(hexColor, 'Expected a color like #3182ce').optional(),
+        backgroundColor: z.string().regex(hexColor, 'Expected a color like #3182ce').optional(),
+        fontFamily: z.enum(['system', 'serif', 'humanist', 'rounded', 'mono']).optional(),
+        logoUrl: z.string().optional(),
+        submitLabel: z.string().optional(),
+        borderRadius: z.enum(['none', 'small', 'medium', 'large', 'pill']).optional(),
+      })
+      .optional(),
+    defaultLocale: z.string().min(1).optional(),
+    translations: z.record(translationSchema).optional(),
+  })
+  .superRefine((form, ctx) => {
+    const seen = new Set<string>();
+    form.questions.forEach((question, index) => {
+      if (seen.has(question.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['questions', index, 'id'],
+          message: `Duplicate question id "${question.id}"`,
+        });
+      }
+      seen.add(question.id);
+    });
+  });
+
+const exportEnvelopeSchema = z.object({
+  format: z.literal(FORM_EXPORT_FORMAT, {
+    errorMap: () => ({ message: 'Not a form export file' }),
+  }),
+  version: z
+    .number()
+    .int()
+    .max(FORM_EXPORT_VERSION, `Exported by a newer version (supported up to ${FORM_EXPORT_VERSION})`),
+  form: z.unknown(),
+});
+
+const formatIssue = (issue: z.ZodIssue, prefix: (string | number)[] = []) => {
+  const path = [...prefix, ...issue.path].join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+};
+
+export const toFormDefinition = (form: Form): FormDefinition => ({
+  title: form.title,
+  questions: form.questions,
+  pages: form.pages,
+  theme: form.theme,
+  defaultLocale: form.defaultLocale,
+  translations: form.translations,
+});
+
+export const exportFormJson = (form: Form): string => {
+  const payload: FormExport = {
+    format: FORM_EXPORT_FORMAT,
+    version: FORM_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    form: toFormDefinition(form),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+/**
+ * Parses and structurally validates an exported form. Every problem found is
+ * reported with the path to the offending value.
+ */
+export const parseFormImport = (text: string): FormImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [`File is not valid JSON${error instanceof Error ? `: ${error.message}` : ''}`],
+    };
+  }
+
+  const envelope = exportEnvelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    return { success: false, errors: envelope.error.issues.map((issue) => formatIssue(issue)) };
+  }
+
+  return parseFormDefinition(envelope.data.form, ['form']);
+};
+
+/**
+ * Structurally validates a form definition that has already been parsed, such
+ * as one handed to the embeddable widget.
+ */
+export const parseFormDefinition = (
+  data: unknown,
+  pathPrefix: (string | number)[] = []
+): FormImportResult => {
+  const definition = formDefinitionSchema.safeParse(data);
+  if (!definition.success) {
+    return {
+      success: false,
+      errors: definition.error.issues.map((issue) => formatIssue(issue, pathPrefix)),
+    };
+  }
+
+  return { success: true, form: definition.data };
+};
+
+/**
+ * Structurally validates a single question, such as one saved on its own,
+ * with the same rules as the questions of an imported form.
+ */
+export const parseQuestionDefinition = (
+  data: unknown,
+  pathPrefix: (string | number)[] = []
+): QuestionParseResult => {
+  const question = questionSchema.safeParse(data);
+  if (!question.success) {
+    return {
+      success: false,
+      errors: question.error.issues.map((issue) => formatIssue(issue, pathPrefix)),
+    };
+  }
+
+  return { success: true, question: question.data };
+};
@@ -0,0 +1,375 @@
+import { Question } from '../types/form';
+
+/*
+ * Formulas are arithmetic over other questions' answers, e.g.
+ * `{Weight} / ({Height} / 100) ^ 2` or `round({Price} * {Quantity}, 2)`.
+ * A question is referenced in braces by its id or its label.
+ */
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'reference'; name: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+export type FormulaParseResult =
+  | { success: true; ast: FormulaNode }
+  | { success: false; error: string };
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'reference'; name: string; position: number }
+  | { kind: 'identifier'; name: string; position: number }
+  | { kind: 'symbol'; symbol: string; position: number };
+
+// Function name -> [min, max] argument count
+const FUNCTIONS: Record<string, [number, number]> = {
+  sum: [1, Infinity],
+  min: [1, Infinity],
+  max: [1, Infinity],
+  round: [1, 2],
+  abs: [1, 1],
+  sqrt: [1, 1],
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+class FormulaSyntaxError extends Error {}
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+      if (!match) {
+        throw new FormulaSyntaxError(`Unexpected "${char}" at position ${i + 1}`);
+      }
+      tokens.push({ kind: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+    } else if (char === '{') {
+      const end = formula.indexOf('}', i);
+      if (end === -1) {
+        throw new FormulaSyntaxError(`Missing "}" for the reference at position ${i + 1}`);
+      }
+      const name = formula.slice(i + 1, end).trim();
+      if (!name) {
+        throw new FormulaSyntaxError(`Empty reference at position ${i + 1}`);
+      }
+      tokens.push({ kind: 'reference', name, position: i });
+      i = end + 1;
+    } else if (/[a-z]/i.test(char)) {
+      const name = formula.slice(i).match(/^[a-z]+/i)![0];
+      tokens.push({ kind: 'identifier', name: name.toLowerCase(), position: i });
+      i += name.length;
+    } else if ('+-*/%^(),'.includes(char)) {
+      tokens.push({ kind: 'symbol', symbol: char, position: i });
+      i++;
+    } else {
+      throw new FormulaSyntaxError(`Unexpected "${char}" at position ${i + 1}`);
+    }
+  }
+
+  return tokens;
+};
+
+// Recursive descent, lowest precedence first: + -, then * / %, then unary minus, then ^
+const parseTokens = (tokens: Token[]): FormulaNode => {
+  let index = 0;
+
+  const peekSymbol = () => {
+    const token = tokens[index];
+    return token?.kind === 'symbol' ? token.symbol : undefined;
+  };
+
+  const describe = (token: Token | undefined) => {
+    if (!token) return 'end of formula';
+    switch (token.kind) {
+      case 'number':
+        return `"${token.value}" at position ${token.position + 1}`;
+      case 'reference':
+        return `"{${token.name}}" at position ${token.position + 1}`;
+      case 'identifier':
+        return `"${token.name}" at position ${token.position + 1}`;
+      default:
+        return `"${token.symbol}" at position ${token.position + 1}`;
+    }
+  };
+
+  const expectSymbol = (symbol: string) => {
+    if (peekSymbol() !== symbol) {
+      throw new FormulaSyntaxError(`Expected "${symbol}" but found ${describe(tokens[index])}`);
+    }
+    index++;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (peekSymbol() === '+' || peekSymbol() === '-') {
+      const operator = peekSymbol() as BinaryOperator;
+      index++;
+      node = { kind: 'binary', operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (peekSymbol() === '*' || peekSymbol() === '/' || peekSymbol() === '%') {
+      const operator = peekSymbol() as BinaryOperator;
+      index++;
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (peekSymbol() === '-') {
+      index++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    if (peekSymbol() === '+') {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right-associative, so 2 ^ 3 ^ 2 is 2 ^ 9
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (peekSymbol() === '^') {
+      index++;
+      return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[index];
+
+    if (token?.kind === 'number') {
+      index++;
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token?.kind === 'reference') {
+      index++;
+      return { kind: 'reference', name: token.name };
+    }
+
+    if (token?.kind === 'identifier') {
+      const arity = FUNCTIONS[token.name];
+      if (!arity) {
+        throw new FormulaSyntaxError(
+          `Unknown function "${token.name}"; use ${FORMULA_FUNCTIONS.join(', ')}, or wrap question names in {}`
+        );
+      }
+      index++;
+      expectSymbol('(');
+      const args = [parseExpression()];
+      while (peekSymbol() === ',') {
+        index++;
+        args.push(parseExpression());
+      }
+      expectSymbol(')');
+
+      const [min, max] = arity;
+      if (args.length < min || args.length > max) {
+        const expected = max === Infinity ? `at least ${min}` : min === max ? `${min}` : `${min} or ${max}`;
+        throw new FormulaSyntaxError(`${token.name}() takes ${expected} argument${max === 1 ? '' : 's'}`);
+      }
+      return { kind: 'call', name: token.name, args };
+    }
+
+    if (peekSymbol() === '(') {
+      index++;
+      const node = parseExpression();
+      expectSymbol(')');
+      return node;
+    }
+
+    throw new FormulaSyntaxError(`Unexpected ${describe(token)}`);
+  };
+
+  const ast = parseExpression();
+  if (index < tokens.length) {
+    throw new FormulaSyntaxError(`Unexpected ${describe(tokens[index])}`);
+  }
+  return ast;
+};
+
+export const parseFormula = (formula: string): FormulaParseResult => {
+  if (!formula.trim()) {
+    return { success: false, error: 'Formula is empty' };
+  }
+  try {
+    return { success: true, ast: parseTokens(tokenize(formula)) };
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+};
+
+export const getFormulaReferences = (node: FormulaNode): string[] => {
+  switch (node.kind) {
+    case 'reference':
+      return [node.name];
+    case 'negate':
+      return getFormulaReferences(node.operand);
+    case 'binary':
+      return [...getFormulaReferences(node.left), ...getFormulaReferences(node.right)];
+    case 'call':
+      return node.args.flatMap(getFormulaReferences);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Finds the question a reference points at: an exact id first, otherwise a
+ * label compared case-insensitively.
+ */
+export const resolveFormulaReference = (name: string, questions: Question[]) =>
+  questions.find((q) => q.id === name) ??
+  questions.find((q) => q.label.trim().toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Follows formula references from `question` and returns the chain of
+ * questions that leads back to it, e.g. [Total, Subtotal, Total], or null.
+ */
+export const findFormulaCycle = (question: Question, questions: Question[]): Question[] | null => {
+  const visited = new Set<string>();
+
+  const walk = (current: Question, path: Question[]): Question[] | null => {
+    if (current.type !== 'calculated' || !current.formula) return null;
+    const parsed = parseFormula(current.formula);
+    if (!parsed.success) return null;
+
+    for (const name of getFormulaReferences(parsed.ast)) {
+      const target = resolveFormulaReference(name, questions);
+      if (!target) continue;
+      if (target.id === question.id) return [...path, target];
+      if (visited.has(target.id)) continue;
+      visited.add(target.id);
+
+      const cycle = walk(target, [...path, target]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return walk(question, [question]);
+};
+
+// Checkbox answers count their selections; blank answers have no value
+const answerToNumber = (answer: unknown) => {
+  if (Array.isArray(answer)) return answer.length;
+  if (answer === undefined || answer === null || String(answer).trim() === '') return NaN;
+  return Number(answer);
+};
+
+const evaluate = (node: FormulaNode, getValue: (name: string) => number): number => {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'reference':
+      return getValue(node.name);
+    case 'negate':
+      return -evaluate(node.operand, getValue);
+    case 'binary': {
+      const left = evaluate(node.left, getValue);
+      const right = evaluate(node.right, getValue);
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '%':
+          return left % right;
+        case '^':
+          return left ** right;
+      }
+      return NaN;
+    }
+    case 'call': {
+      const args = node.args.map((arg) => evaluate(arg, getValue));
+      switch (node.name) {
+        case 'sum':
+          return args.reduce((total, value) => total + value, 0);
+        case 'min':
+          return Math.min(...args);
+        case 'max':
+          return Math.max(...args);
+        case 'round': {
+          const factor = 10 ** (args[1] ?? 0);
+          return Math.round(args[0] * factor) / factor;
+        }
+        case 'abs':
+          return Math.abs(args[0]);
+        case 'sqrt':
+          return Math.sqrt(args[0]);
+      }
+      return NaN;
+    }
+  }
+};
+
+/**
+ * Computes every calculated question from the current answers. A result is
+ * blank ('') while a referenced answer is missing or not a number, and when
+ * the formula is invalid, circular or divides by zero.
+ */
+export const computeCalculatedValues = (
+  questions: Question[],
+  answers: Record<string, unknown>
+): Record<string, number | ''> => {
+  const results = new Map<string, number>();
+  const inProgress = new Set<string>();
+
+  const valueOf = (question: Question): number => {
+    if (question.type !== 'calculated') return answerToNumber(answers[question.id]);
+    if (results.has(question.id)) return results.get(question.id)!;
+    if (inProgress.has(question.id)) return NaN;
+
+    inProgress.add(question.id);
+    const parsed = parseFormula(question.formula || '');
+    let value = parsed.success
+      ? evaluate(parsed.ast, (name) => {
+          const target = resolveFormulaReference(name, questions);
+          return target ? valueOf(target) : NaN;
+        })
+      : NaN;
+    inProgress.delete(question.id);
+
+    if (question.decimals !== undefined && isFinite(value)) {
+      const factor = 10 ** question.decimals;
+      value = Math.round(value * factor) / factor;
+    }
+    results.set(question.id, value);
+    return value;
+  };
+
+  return Object.fromEntries(
+    questions
+      .filter((q) => q.type === 'calculated')
+      .map((q) => {
+        const value = valueOf(q);
+        return [q.id, isFinite(value) ? value : ''];
+      })
+  );
+};
@@ -0,0 +1,24 @@
+import { MatrixAnswer, Question } from '../types/form';
+
+export const isMatrixAnswer = (value: unknown): value is MatrixAnswer =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.values(value).every((column) => typeof column === 'string');
+
+/**
+ * Keeps the answered rows that still exist, in the question's row order, so
+ * answers read the same however the respondent went through them.
+ */
+export const orderMatrixAnswer = (question: Question, answer: MatrixAnswer): MatrixAnswer =>
+  Object.fromEntries(
+    (question.rows || [])
+      .filter((row) => answer[row.label] !== undefined && answer[row.label] !== '')
+      .map((row) => [row.label, answer[row.label]])
+  );
+
+// "Row: Column" for each answered row
+export const formatMatrixAnswer = (answer: MatrixAnswer, separator = '; ') =>
+  Object.entries(answer)
+    .map(([row, column]) => `${row}: ${column}`)
+    .join(separator);
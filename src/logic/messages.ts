@@ -0,0 +1,192 @@
+// Built-in texts shown to respondents, independent of any one form
+export type MessageKey =
+  | 'required'
+  | 'minLength'
+  | 'maxLength'
+  | 'invalidFormat'
+  | 'notANumber'
+  | 'min'
+  | 'max'
+  | 'minSelections'
+  | 'maxSelections'
+  | 'specifyOther'
+  | 'other'
+  | 'selectPlaceholder'
+  | 'calculatedPlaceholder'
+  | 'pageProgress'
+  | 'back'
+  | 'next'
+  | 'submit'
+  | 'submitted'
+  | 'submitFailed'
+  | 'errorSummary'
+  | 'draftRestored'
+  | 'startOver'
+  | 'fileTypeNotAllowed'
+  | 'fileTooLarge'
+  | 'maxFiles'
+  | 'dropFiles'
+  | 'chooseFiles'
+  | 'removeFile'
+  | 'uploadFailed'
+  | 'scaleRange'
+  | 'ratingValue'
+  | 'answerEveryRow';
+
+export type MessageParams = Record<string, string | number>;
+
+export type MessageFormatter = (key: MessageKey, params?: MessageParams) => string;
+
+export const DEFAULT_LOCALE = 'en';
+
+const MESSAGES: Record<string, Record<MessageKey, string>> = {
+  en: {
+    required: 'This field is required',
+    minLength: 'Minimum {min} characters required',
+    maxLength: 'Maximum {max} characters allowed',
+    invalidFormat: 'Invalid format',
+    notANumber: 'Must be a number',
+    min: 'Value must be at least {min}',
+    max: 'Value must not exceed {max}',
+    minSelections: 'Select at least {min} options',
+    maxSelections: 'Select at most {max} options',
+    specifyOther: 'Please specify',
+    other: 'Other',
+    selectPlaceholder: 'Select an option',
+    calculatedPlaceholder: 'Calculated from other answers',
+    pageProgress: 'Page {page} of {total}',
+    back: 'Back',
+    next: 'Next',
+    submit: 'Submit',
+    submitted: 'Form submitted successfully',
+    submitFailed: 'Failed to submit form',
+    errorSummary: 'Please fix the following',
+    draftRestored: 'Continue where you left off: your answers from {date} were restored.',
+    startOver: 'Start over',
+    fileTypeNotAllowed: '{name} is not an accepted file type',
+    fileTooLarge: '{name} is larger than {max}',
+    maxFiles: 'Attach at most {max} files',
+    dropFiles: 'Drag files here or',
+    chooseFiles: 'Choose files',
+    removeFile: 'Remove {name}',
+    uploadFailed: 'Could not attach {name}',
+    scaleRange: 'Choose a value from {min} to {max}',
+    ratingValue: '{value} of {max} stars',
+    answerEveryRow: 'Answer every row',
+  },
+  de: {
+    required: 'Dieses Feld ist erforderlich',
+    minLength: 'Mindestens {min} Zeichen erforderlich',
+    maxLength: 'Höchstens {max} Zeichen erlaubt',
+    invalidFormat: 'Ungültiges Format',
+    notANumber: 'Muss eine Zahl sein',
+    min: 'Der Wert muss mindestens {min} sein',
+    max: 'Der Wert darf {max} nicht überschreiten',
+    minSelections: 'Wählen Sie mindestens {min} Optionen',
+    maxSelections: 'Wählen Sie höchstens {max} Optionen',
+    specifyOther: 'Bitte angeben',
+    other: 'Sonstiges',
+    selectPlaceholder: 'Option auswählen',
+    calculatedPlaceholder: 'Aus anderen Antworten berechnet',
+    pageProgress: 'Seite {page} von {total}',
+    back: 'Zurück',
+    next: 'Weiter',
+    submit: 'Absenden',
+    submitted: 'Formular erfolgreich gesendet',
+    submitFailed: 'Formular konnte nicht gesendet werden',
+    errorSummary: 'Bitte korrigieren Sie Folgendes',
+    draftRestored:
+      'Machen Sie dort weiter, wo Sie aufgehört haben: Ihre Antworten vom {date} wurden wiederhergestellt.',
+    startOver: 'Neu beginnen',
+    fileTypeNotAllowed: '{name} hat keinen erlaubten Dateityp',
+    fileTooLarge: '{name} ist größer als {max}',
+    maxFiles: 'Hängen Sie höchstens {max} Dateien an',
+    dropFiles: 'Dateien hierher ziehen oder',
+    chooseFiles: 'Dateien auswählen',
+    removeFile: '{name} entfernen',
+    uploadFailed: '{name} konnte nicht angehängt werden',
+    scaleRange: 'Wählen Sie einen Wert von {min} bis {max}',
+    ratingValue: '{value} von {max} Sternen',
+    answerEveryRow: 'Beantworten Sie jede Zeile',
+  },
+  hi: {
+    required: 'यह फ़ील्ड आवश्यक है',
+    minLength: 'कम से कम {min} अक्षर आवश्यक हैं',
+    maxLength: 'अधिकतम {max} अक्षरों की अनुमति है',
+    invalidFormat: 'अमान्य प्रारूप',
+    notANumber: 'एक संख्या होनी चाहिए',
+    min: 'मान कम से कम {min} होना चाहिए',
+    max: 'मान {max} से अधिक नहीं होना चाहिए',
+    minSelections: 'कम से कम {min} विकल्प चुनें',
+    maxSelections: 'अधिकतम {max} विकल्प चुनें',
+    specifyOther: 'कृपया बताएं',
+    other: 'अन्य',
+    selectPlaceholder: 'एक विकल्प चुनें',
+    calculatedPlaceholder: 'अन्य उत्तरों से गणना की गई',
+    pageProgress: 'पृष्ठ {page} / {total}',
+    back: 'पीछे',
+    next: 'आगे',
+    submit: 'जमा करें',
+    submitted: 'फ़ॉर्म सफलतापूर्वक जमा हो गया',
+    submitFailed: 'फ़ॉर्म जमा नहीं हो सका',
+    errorSummary: 'कृपया निम्नलिखित ठीक करें',
+    draftRestored: 'जहाँ आपने छोड़ा था वहीं से जारी रखें: {date} के आपके उत्तर वापस लाए गए।',
+    startOver: 'फिर से शुरू करें',
+    fileTypeNotAllowed: '{name} का फ़ाइल प्रकार स्वीकार्य नहीं है',
+    fileTooLarge: '{name} {max} से बड़ी है',
+    maxFiles: 'अधिकतम {max} फ़ाइलें संलग्न करें',
+    dropFiles: 'फ़ाइलें यहाँ खींचें या',
+    chooseFiles: 'फ़ाइलें चुनें',
+    removeFile: '{name} हटाएँ',
+    uploadFailed: '{name} संलग्न नहीं हो सकी',
+    scaleRange: '{min} से {max} तक कोई मान चुनें',
+    ratingValue: '{max} में से {value} सितारे',
+    answerEveryRow: 'हर पंक्ति का उत्तर दें',
+  },
+};
+
+// Languages with built-in texts, offered first in the translation editor
+export const SUPPORTED_LOCALES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'de', name: 'Deutsch' },
+  { code: 'hi', name: 'हिन्दी' },
+];
+
+export const getLocaleName = (locale: string) =>
+  SUPPORTED_LOCALES.find((entry) => entry.code === locale)?.name ?? locale;
+
+/**
+ * Locales to try in order: each given locale, then its language without a
+ * region ("de-AT" -> "de"), skipping repeats.
+ */
+export const getLocaleChain = (...locales: (string | undefined)[]) => {
+  const chain: string[] = [];
+  locales.forEach((tag) => {
+    if (!tag) return;
+    const parts = tag.split('-');
+    for (let length = parts.length; length > 0; length--) {
+      const candidate = parts.slice(0, length).join('-');
+      if (!chain.includes(candidate)) chain.push(candidate);
+    }
+  });
+  return chain;
+};
+
+const interpolate = (template: string, params: MessageParams = {}) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+
+/**
+ * Returns a formatter for the built-in texts in the first locale of the chain
+ * that has them, falling back to English.
+ */
+export const createMessageFormatter = (...locales: (string | undefined)[]): MessageFormatter => {
+  const catalog =
+    getLocaleChain(...locales, DEFAULT_LOCALE)
+      .map((locale) => MESSAGES[locale])
+      .find(Boolean) ?? MESSAGES[DEFAULT_LOCALE];
+  return (key, params) => interpolate(catalog[key], params);
+};
+
+export const formatMessage = createMessageFormatter(DEFAULT_LOCALE);
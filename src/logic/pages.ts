@@ -0,0 +1,73 @@
+import { Form, FormPage, Question } from '../types/form';
+
+export interface PageGroup {
+  page: FormPage;
+  questions: Question[];
+}
+
+// Questions without a page, or pointing at a deleted one, belong to the first page
+const resolvePageIndex = (question: Question, pages: FormPage[]) => {
+  const index = pages.findIndex((page) => page.id === question.pageId);
+  return index === -1 ? 0 : index;
+};
+
+/**
+ * Splits a form's questions into its pages. A form without pages renders as a
+ * single page titled after the form.
+ */
+export const getPageGroups = (form: Pick<Form, 'title' | 'questions' | 'pages'>): PageGroup[] => {
+  const pages = form.pages?.length ? form.pages : [{ id: 'default', title: form.title }];
+
+  return pages.map((page, index) => ({
+    page,
+    questions: form.questions.filter((question) => resolvePageIndex(question, pages) === index),
+  }));
+};
+
+/**
+ * Keeps the question list in page order so that the flat order matches what
+ * respondents see. Order within a page is preserved.
+ */
+export const sortQuestionsByPage = (questions: Question[], pages: FormPage[] = []): Question[] => {
+  if (pages.length === 0) return questions;
+
+  return questions
+    .map((question, index) => ({ question, index, page: resolvePageIndex(question, pages) }))
+    .sort((a, b) => a.page - b.page || a.index - b.index)
+    .map(({ question }) => question);
+};
+
+const pageIdOf = (question: Question, pages: FormPage[]) =>
+  pages[resolvePageIndex(question, pages)]?.id;
+
+/**
+ * Moves a question to a new position in the list. A question dropped among
+ * another page's questions joins that page; a single step across a page
+ * boundary only changes its page, so it lands at the edge of the neighbour.
+ */
+export const moveQuestion = (
+  questions: Question[],
+  pages: FormPage[] = [],
+  questionId: string,
+  toIndex: number
+): Question[] => {
+  const fromIndex = questions.findIndex((q) => q.id === questionId);
+  const targetIndex = Math.max(0, Math.min(toIndex, questions.length - 1));
+  if (fromIndex === -1 || fromIndex === targetIndex) return questions;
+
+  const question = questions[fromIndex];
+  const targetPageId = pageIdOf(questions[targetIndex], pages);
+  const moved = pages.length ? { ...question, pageId: targetPageId } : question;
+
+  if (pages.length && targetPageId !== pageIdOf(question, pages) &&
+      Math.abs(targetIndex - fromIndex) === 1) {
+    return sortQuestionsByPage(
+      questions.map((q) => (q.id === questionId ? moved : q)),
+      pages
+    );
+  }
+
+  const reordered = questions.filter((q) => q.id !== questionId);
+  reordered.splice(targetIndex, 0, moved);
+  return sortQuestionsByPage(reordered, pages);
+};
@@ -0,0 +1,88 @@
+import { FormValues, Question } from '../types/form';
+
+// Names the form a share link opens; questions can't use it as their URL parameter
+export const FORM_LINK_PARAM = 'form';
+
+export const isValidAlias = (alias: string) => /^[A-Za-z][A-Za-z0-9_-]*$/.test(alias);
+
+// Calculated answers are always recomputed; files and matrix answers don't fit in a link
+export const isPrefillable = (question: Question) =>
+  question.type !== null &&
+  question.type !== 'calculated' &&
+  question.type !== 'file' &&
+  question.type !== 'matrix';
+
+export const getPrefillKey = (question: Question) => question.alias?.trim() || question.id;
+
+// Choice answers are stored by option label; the URL may differ in case or spacing
+const findOptionLabel = (question: Question, value: string) =>
+  (question.options || []).find(
+    (option) => option.label.trim().toLowerCase() === value.trim().toLowerCase()
+  )?.label;
+
+/**
+ * Reads prefilled answers from URL query parameters, named by each question's
+ * alias or id. Checkbox answers repeat the parameter once per option; values
+ * that match no option are ignored.
+ */
+export const parsePrefillParams = (
+  questions: Question[],
+  params: URLSearchParams | string
+): FormValues => {
+  const search = typeof params === 'string' ? new URLSearchParams(params) : params;
+  const values: FormValues = {};
+
+  questions.filter(isPrefillable).forEach((question) => {
+    const key = [question.alias?.trim(), question.id].find((name) => name && search.has(name));
+    if (!key) return;
+    const raw = search.getAll(key);
+
+    switch (question.type) {
+      case 'select':
+      case 'radio': {
+        const label = findOptionLabel(question, raw[0]);
+        if (label !== undefined) values[question.id] = label;
+        break;
+      }
+      case 'checkbox': {
+        const labels = raw
+          .map((value) => findOptionLabel(question, value))
+          .filter((label): label is string => label !== undefined);
+        if (labels.length) values[question.id] = [...new Set(labels)];
+        break;
+      }
+      default:
+        values[question.id] = raw[0];
+    }
+  });
+
+  return values;
+};
+
+// The app opens `?form=<id>` straight in the form preview
+export const createFormLink = (formId: string, baseUrl: string) => {
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(FORM_LINK_PARAM, formId);
+  return url.href;
+};
+
+/**
+ * Adds answers to a link as query parameters that `parsePrefillParams` reads
+ * back. Blank answers are left out.
+ */
+export const createPrefillUrl = (baseUrl: string, questions: Question[], values: FormValues) => {
+  const url = new URL(baseUrl);
+
+  questions.filter(isPrefillable).forEach((question) => {
+    const key = getPrefillKey(question);
+    url.searchParams.delete(key);
+    const value = values[question.id];
+    (Array.isArray(value) ? value : [value])
+      .filter((entry) => entry !== undefined && String(entry).trim() !== '')
+      .forEach((entry) => url.searchParams.append(key, String(entry)));
+  });
+
+  return url.href;
+};
@@ -0,0 +1,228 @@
+import { Question, Submission } from '../types/form';
+import { getScalePoints } from './scales';
+import { isMatrixAnswer } from './matrix';
+
+export interface DateRange {
+  // Inclusive bounds in epoch milliseconds
+  from?: number;
+  to?: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+interface SummaryBase {
+  questionId: string;
+  // Responses the question was shown to; hidden and later-added questions are not counted
+  shown: number;
+  answered: number;
+  blankRate: number;
+}
+
+export interface NumberSummary extends SummaryBase {
+  kind: 'number';
+  mean: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  histogram: HistogramBin[];
+}
+
+export interface TextSummary extends SummaryBase {
+  kind: 'text';
+  topAnswers: ValueCount[];
+}
+
+export interface ChoiceSummary extends SummaryBase {
+  kind: 'choice';
+  counts: ValueCount[];
+}
+
+export interface MatrixRowCounts {
+  row: string;
+  counts: ValueCount[];
+}
+
+export interface MatrixSummary extends SummaryBase {
+  kind: 'matrix';
+  rows: MatrixRowCounts[];
+}
+
+export type QuestionSummary = NumberSummary | TextSummary | ChoiceSummary | MatrixSummary;
+
+const MAX_HISTOGRAM_BINS = 10;
+const TOP_ANSWER_COUNT = 5;
+
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'object' ? Object.keys(value).length === 0 : String(value).trim() === '');
+
+export const filterSubmissionsByDate = (submissions: Submission[], { from, to }: DateRange) =>
+  submissions.filter(
+    (s) => (from === undefined || s.createdAt >= from) && (to === undefined || s.createdAt <= to)
+  );
+
+/**
+ * Share of responses that answered every question they were shown. The
+ * renderer only submits visible questions, so the keys of a response are the
+ * questions it was shown.
+ */
+export const getCompletionRate = (submissions: Submission[], questions: Question[]) => {
+  if (submissions.length === 0) return null;
+
+  const questionIds = new Set(questions.map((q) => q.id));
+  const complete = submissions.filter((s) =>
+    Object.entries(s.answers).every(([id, value]) => !questionIds.has(id) || !isBlank(value))
+  );
+  return complete.length / submissions.length;
+};
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Equal-width bins, about √n of them; the last bin includes its upper edge
+export const buildHistogram = (values: number[]): HistogramBin[] => {
+  if (values.length === 0) return [];
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [{ start: min, end: max, count: values.length }];
+
+  const binCount = Math.min(MAX_HISTOGRAM_BINS, Math.ceil(Math.sqrt(values.length)));
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: i === binCount - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+
+  values.forEach((value) => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+};
+
+const countValues = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return counts;
+};
+
+const byCountDescending = (a: ValueCount, b: ValueCount) =>
+  b.count - a.count || a.value.localeCompare(b.value);
+
+/**
+ * Summarises the stored answers to one question. Returns null for question
+ * types without a summary.
+ */
+export const summarizeQuestion = (
+  question: Question,
+  submissions: Submission[]
+): QuestionSummary | null => {
+  const shownAnswers = submissions
+    .filter((s) => question.id in s.answers)
+    .map((s) => s.answers[question.id]);
+  const answers = shownAnswers.filter((value) => !isBlank(value));
+  const base: SummaryBase = {
+    questionId: question.id,
+    shown: shownAnswers.length,
+    answered: answers.length,
+    blankRate: shownAnswers.length ? (shownAnswers.length - answers.length) / shownAnswers.length : 0,
+  };
+
+  switch (question.type) {
+    case 'number':
+    case 'calculated':
+    case 'rating':
+    case 'scale': {
+      const numbers = answers.map(Number).filter((n) => !isNaN(n)).sort((a, b) => a - b);
+      const hasValues = numbers.length > 0;
+      // Ratings and scales get a bar per point, unpicked points included
+      const histogram =
+        question.type === 'rating' || question.type === 'scale'
+          ? getScalePoints(question).map((point) => ({
+              start: point,
+              end: point,
+              count: numbers.filter((n) => n === point).length,
+            }))
+          : buildHistogram(numbers);
+      return {
+        ...base,
+        kind: 'number',
+        mean: hasValues ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : null,
+        median: hasValues ? median(numbers) : null,
+        min: hasValues ? numbers[0] : null,
+        max: hasValues ? numbers[numbers.length - 1] : null,
+        histogram,
+      };
+    }
+
+    case 'text':
+    case 'hidden': {
+      // Answers that differ only in case or surrounding spaces count as the same
+      const labels = new Map<string, string>();
+      const keys = answers.map((value) => {
+        const text = String(value).trim();
+        const key = text.toLowerCase();
+        if (!labels.has(key)) labels.set(key, text);
+        return key;
+      });
+      const topAnswers = [...countValues(keys)]
+        .map(([key, count]) => ({ value: labels.get(key)!, count }))
+        .sort(byCountDescending)
+        .slice(0, TOP_ANSWER_COUNT);
+      return { ...base, kind: 'text', topAnswers };
+    }
+
+    case 'select':
+    case 'radio':
+    case 'checkbox': {
+      const counts = countValues(answers.flatMap((value) => (Array.isArray(value) ? (value as string[]) : [String(value)])));
+      // Every option is listed, even unpicked ones; "Other" texts and removed options follow
+      const optionLabels = (question.options || []).map((option) => option.label);
+      const optionCounts = optionLabels.map((value) => ({ value, count: counts.get(value) ?? 0 }));
+      const otherCounts = [...counts]
+        .filter(([value]) => !optionLabels.includes(value))
+        .map(([value, count]) => ({ value, count }))
+        .sort(byCountDescending);
+      return { ...base, kind: 'choice', counts: [...optionCounts, ...otherCounts] };
+    }
+
+    case 'matrix': {
+      // Counted per row over the current rows and columns, like choices
+      const columns = (question.options || []).map((option) => option.label);
+      const rows = (question.rows || []).map((row) => {
+        const picked = answers
+          .filter(isMatrixAnswer)
+          .map((answer) => answer[row.label])
+          .filter(Boolean);
+        const counts = countValues(picked);
+        return {
+          row: row.label,
+          counts: [
+            ...columns.map((value) => ({ value, count: counts.get(value) ?? 0 })),
+            ...[...counts]
+              .filter(([value]) => !columns.includes(value))
+              .map(([value, count]) => ({ value, count }))
+              .sort(byCountDescending),
+          ],
+        };
+      });
+      return { ...base, kind: 'matrix', rows };
+    }
+
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,123 @@
+import { Form, FormRevision, Submission } from '../types/form';
+import { isFileAnswer } from './fileUpload';
+import { formatMatrixAnswer, isMatrixAnswer } from './matrix';
+
+export type ExportCell = string | number | Date | null;
+
+export interface ResponseTable {
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+interface AnswerColumn {
+  questionId: string;
+  header: string;
+}
+
+// Separates the options of a checkbox answer inside one cell
+const LIST_SEPARATOR = '; ';
+
+const toCell = (value: unknown): ExportCell => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) {
+    // Files are listed by name; their content isn't part of the export
+    const items = value.map((item) => (isFileAnswer(item) ? item.name : item));
+    return items.length ? items.join(LIST_SEPARATOR) : null;
+  }
+  if (isMatrixAnswer(value)) {
+    return Object.keys(value).length ? formatMatrixAnswer(value, LIST_SEPARATOR) : null;
+  }
+  if (typeof value === 'number') return value;
+  return String(value);
+};
+
+// Spreadsheets match columns by header, so repeated labels get a counter
+const makeUnique = (headers: string[]) => {
+  const seen = new Map<string, number>();
+  return headers.map((header) => {
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count === 1 ? header : `${header} (${count})`;
+  });
+};
+
+/**
+ * Works out one column per question: the form's current questions first, then
+ * questions that only older responses answered. Those are labelled from the
+ * newest revision that still had them, so their answers are not lost.
+ */
+const getAnswerColumns = (
+  form: Form,
+  submissions: Submission[],
+  revisions: FormRevision[]
+): AnswerColumn[] => {
+  const current = form.questions.map((q) => ({ questionId: q.id, header: q.label || q.id }));
+  const currentIds = new Set(form.questions.map((q) => q.id));
+
+  const newestFirst = [...revisions].sort((a, b) => b.revision - a.revision);
+  const deletedIds = [
+    ...new Set(submissions.flatMap((s) => Object.keys(s.answers)).filter((id) => !currentIds.has(id))),
+  ];
+  const deleted = deletedIds.map((questionId) => {
+    const label = newestFirst
+      .map((r) => r.snapshot.questions.find((q) => q.id === questionId)?.label)
+      .find(Boolean);
+    return { questionId, header: `${label || questionId} (deleted)` };
+  });
+
+  return [...current, ...deleted];
+};
+
+export const buildResponseTable = (
+  form: Form,
+  submissions: Submission[],
+  revisions: FormRevision[] = []
+): ResponseTable => {
+  const columns = getAnswerColumns(form, submissions, revisions);
+  const oldestFirst = [...submissions].sort((a, b) => a.createdAt - b.createdAt);
+
+  return {
+    headers: makeUnique([
+      'Submission ID',
+      'Submitted at',
+      'Form revision',
+      ...columns.map((column) => column.header),
+    ]),
+    rows: oldestFirst.map((submission) => [
+      submission.id,
+      new Date(submission.createdAt),
+      submission.formRevision,
+      ...columns.map((column) => toCell(submission.answers[column.questionId])),
+    ]),
+  };
+};
+
+// Spreadsheets run text starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC_TEXT = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+// Typed text could run as a formula when the CSV is opened; a leading ' keeps it text
+const neutraliseFormula = (text: string) =>
+  FORMULA_PREFIX.test(text) && !NUMERIC_TEXT.test(text) ? `'${text}` : text;
+
+const toCsvText = (cell: ExportCell) => {
+  if (cell instanceof Date) return cell.toISOString();
+  if (cell === null) return '';
+  if (typeof cell === 'number') return String(cell);
+  return neutraliseFormula(cell);
+};
+
+// RFC 4180: quote fields containing a comma, quote or line break, and double inner quotes
+const escapeCsvField = (cell: ExportCell) => {
+  const text = toCsvText(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises a table as RFC 4180 CSV with CRLF line endings. The optional
+ * byte order mark makes Excel read the file as UTF-8.
+ */
+export const toCsv = (table: ResponseTable, { bom = false }: { bom?: boolean } = {}) => {
+  const lines = [table.headers, ...table.rows].map((row) => row.map(escapeCsvField).join(','));
+  return `${bom ? '\uFEFF' : ''}${lines.join('\r\n')}\r\n`;
+};
@@ -0,0 +1,84 @@
+import { Form, Question } from '../types/form';
+
+export type QuestionChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface QuestionDiff {
+  questionId: string;
+  label: string;
+  status: QuestionChangeStatus;
+  changes: string[];
+}
+
+export interface RevisionDiff {
+  titleChanged: boolean;
+  themeChanged: boolean;
+  questions: QuestionDiff[];
+}
+
+const FIELD_LABELS: Partial<Record<keyof Question, string>> = {
+  label: 'Title',
+  type: 'Type',
+  placeholder: 'Help text',
+  validation: 'Validation',
+  options: 'Options',
+  allowOther: '"Other" choice',
+  scale: 'Scale',
+  rows: 'Rows',
+  visibility: 'Visibility rules',
+  pageId: 'Page',
+  alias: 'URL parameter',
+  value: 'Default value',
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const describeChanges = (before: Question, after: Question): string[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Question>;
+  return [...fields]
+    .filter((field) => field !== 'id' && !isEqual(before[field], after[field]))
+    .map((field) => FIELD_LABELS[field] ?? field);
+};
+
+/**
+ * Compares two snapshots of a form question by question. Questions are
+ * matched by id, so renamed questions show up as changed, not as replaced.
+ */
+export const diffRevisions = (base: Form, target: Form): RevisionDiff => {
+  const baseById = new Map(base.questions.map((q) => [q.id, q]));
+  const targetIds = new Set(target.questions.map((q) => q.id));
+
+  // Position is compared among the questions both revisions share
+  const baseOrder = base.questions.filter((q) => targetIds.has(q.id)).map((q) => q.id);
+  const targetOrder = target.questions.filter((q) => baseById.has(q.id)).map((q) => q.id);
+
+  const questions: QuestionDiff[] = target.questions.map((question) => {
+    const previous = baseById.get(question.id);
+    if (!previous) {
+      return { questionId: question.id, label: question.label, status: 'added', changes: [] };
+    }
+
+    const changes = describeChanges(previous, question);
+    if (baseOrder.indexOf(question.id) !== targetOrder.indexOf(question.id)) {
+      changes.push('Position');
+    }
+
+    return {
+      questionId: question.id,
+      label: question.label,
+      status: changes.length ? 'changed' : 'unchanged',
+      changes,
+    };
+  });
+
+  base.questions
+    .filter((question) => !targetIds.has(question.id))
+    .forEach((question) => {
+      questions.push({ questionId: question.id, label: question.label, status: 'removed', changes: [] });
+    });
+
+  return {
+    titleChanged: base.title !== target.title,
+    themeChanged: !isEqual(base.theme, target.theme),
+    questions,
+  };
+};
@@ -0,0 +1,22 @@
+import { Question, ScaleSettings } from '../types/form';
+
+export const DEFAULT_RATING_STARS = 5;
+export const MAX_RATING_STARS = 10;
+// Eleven points allow 0–10, as used for Net Promoter Score
+export const MAX_SCALE_POINTS = 11;
+
+export const DEFAULT_SCALE: ScaleSettings = { min: 1, max: 5 };
+
+// The range a rating or scale question is answered in; ratings always start at one star
+export const getScaleRange = (question: Question): { min: number; max: number } =>
+  question.type === 'rating'
+    ? { min: 1, max: question.scale?.max ?? DEFAULT_RATING_STARS }
+    : {
+        min: question.scale?.min ?? DEFAULT_SCALE.min,
+        max: question.scale?.max ?? DEFAULT_SCALE.max,
+      };
+
+export const getScalePoints = (question: Question) => {
+  const { min, max } = getScaleRange(question);
+  return Array.from({ length: Math.max(0, max - min + 1) }, (_, index) => min + index);
+};
@@ -0,0 +1,178 @@
+import { Form, FormPage, FormTranslation, Question, QuestionOption } from '../types/form';
+import {
+  DEFAULT_LOCALE,
+  MessageFormatter,
+  createMessageFormatter,
+  getLocaleChain,
+} from './messages';
+
+export interface TranslatableString {
+  // Where the translation lives in a FormTranslation, e.g. ['questions', id, 'label']
+  path: string[];
+  // Where the text appears, for the translation editor
+  context: string;
+  source: string;
+}
+
+export interface FormTranslator {
+  locale: string;
+  messages: MessageFormatter;
+  title: string;
+  submitLabel: string;
+  // Label, help text and error message in the requested language
+  question: (question: Question) => Question;
+  optionLabel: (question: Question, option: QuestionOption) => string;
+  rowLabel: (question: Question, row: QuestionOption) => string;
+  page: (page: FormPage) => FormPage;
+}
+
+export const getDefaultLocale = (form: Form) => form.defaultLocale || DEFAULT_LOCALE;
+
+export const getFormLocales = (form: Form) => [
+  getDefaultLocale(form),
+  ...Object.keys(form.translations || {}).filter((locale) => locale !== getDefaultLocale(form)),
+];
+
+/**
+ * Lists every text of a form that can be translated, in the order it appears.
+ * Blank texts are left out since there is nothing to translate.
+ */
+export const getTranslatableStrings = (form: Form): TranslatableString[] => {
+  const strings: TranslatableString[] = [];
+  const add = (path: string[], context: string, source: string | undefined) => {
+    if (source?.trim()) strings.push({ path, context, source });
+  };
+
+  add(['title'], 'Form title', form.title);
+  add(['submitLabel'], 'Submit button', form.theme?.submitLabel);
+
+  (form.pages || []).forEach((page, index) => {
+    add(['pages', page.id, 'title'], `Page ${index + 1} · Title`, page.title);
+    add(['pages', page.id, 'description'], `Page ${index + 1} · Description`, page.description);
+  });
+
+  form.questions.forEach((question, index) => {
+    // Respondents never see hidden questions
+    if (question.type === 'hidden') return;
+    const prefix = `Question ${index + 1}`;
+    add(['questions', question.id, 'label'], `${prefix} · Title`, question.label);
+    add(['questions', question.id, 'placeholder'], `${prefix} · Help text`, question.placeholder);
+    add(['questions', question.id, 'minLabel'], `${prefix} · Start label`, question.scale?.minLabel);
+    add(['questions', question.id, 'maxLabel'], `${prefix} · End label`, question.scale?.maxLabel);
+    (question.rows || []).forEach((row, rowIndex) => {
+      add(['questions', question.id, 'rows', row.id], `${prefix} · Row ${rowIndex + 1}`, row.label);
+    });
+    // A matrix shows its options as columns
+    const optionName = question.type === 'matrix' ? 'Column' : 'Option';
+    (question.options || []).forEach((option, optionIndex) => {
+      add(
+        ['questions', question.id, 'options', option.id],
+        `${prefix} · ${optionName} ${optionIndex + 1}`,
+        option.label
+      );
+    });
+    add(
+      ['questions', question.id, 'validationMessage'],
+      `${prefix} · Error message`,
+      question.validation?.message
+    );
+  });
+
+  return strings;
+};
+
+export const getTranslationValue = (translation: FormTranslation | undefined, path: string[]) => {
+  const value = path.reduce<unknown>(
+    (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+    translation
+  );
+  return typeof value === 'string' ? value : undefined;
+};
+
+// Sets one text, dropping objects that end up empty so untranslated forms stay small
+const setPath = (node: Record<string, unknown>, [key, ...rest]: string[], value: string) => {
+  const next = { ...node };
+  const child = rest.length
+    ? setPath((node[key] as Record<string, unknown>) || {}, rest, value)
+    : value;
+
+  if (child === '' || (typeof child === 'object' && !Object.keys(child).length)) {
+    delete next[key];
+  } else {
+    next[key] = child;
+  }
+  return next;
+};
+
+export const setTranslationValue = (
+  translation: FormTranslation | undefined,
+  path: string[],
+  value: string
+): FormTranslation => setPath((translation || {}) as Record<string, unknown>, path, value);
+
+export const findMissingTranslations = (form: Form, locale: string) => {
+  const translation = form.translations?.[locale];
+  return getTranslatableStrings(form).filter(
+    (entry) => !getTranslationValue(translation, entry.path)?.trim()
+  );
+};
+
+/**
+ * Resolves a form's texts for a locale. Each text comes from the first locale
+ * in the chain that translates it ("de-AT", then "de"), then from the form's
+ * own texts. Built-in texts follow the same chain, ending in English.
+ */
+export const createFormTranslator = (form: Form, locale?: string): FormTranslator => {
+  const defaultLocale = getDefaultLocale(form);
+  const requested = locale || defaultLocale;
+
+  // The form's own texts are the default language, so the chain stops there
+  const chain = getLocaleChain(requested);
+  const defaultIndex = chain.indexOf(defaultLocale);
+  const translations = (defaultIndex === -1 ? chain : chain.slice(0, defaultIndex))
+    .map((tag) => form.translations?.[tag])
+    .filter((translation): translation is FormTranslation => !!translation);
+
+  const lookup = (path: string[], fallback: string) =>
+    translations.map((translation) => getTranslationValue(translation, path)).find((text) => text?.trim()) ??
+    fallback;
+
+  const lookupOptional = (path: string[], fallback: string | undefined) =>
+    fallback === undefined ? undefined : lookup(path, fallback);
+
+  const messages = createMessageFormatter(requested, defaultLocale);
+
+  return {
+    locale: requested,
+    messages,
+    title: lookup(['title'], form.title),
+    submitLabel: form.theme?.submitLabel?.trim()
+      ? lookup(['submitLabel'], form.theme.submitLabel.trim())
+      : messages('submit'),
+    question: (question) => ({
+      ...question,
+      label: lookup(['questions', question.id, 'label'], question.label),
+      placeholder: lookupOptional(['questions', question.id, 'placeholder'], question.placeholder),
+      scale: question.scale && {
+        ...question.scale,
+        minLabel: lookupOptional(['questions', question.id, 'minLabel'], question.scale.minLabel),
+        maxLabel: lookupOptional(['questions', question.id, 'maxLabel'], question.scale.maxLabel),
+      },
+      validation: question.validation && {
+        ...question.validation,
+        message: lookupOptional(
+          ['questions', question.id, 'validationMessage'],
+          question.validation.message
+        ),
+      },
+    }),
+    optionLabel: (question, option) =>
+      lookup(['questions', question.id, 'options', option.id], option.label),
+    rowLabel: (question, row) => lookup(['questions', question.id, 'rows', row.id], row.label),
+    page: (page) => ({
+      ...page,
+      title: lookup(['pages', page.id, 'title'], page.title),
+      description: lookupOptional(['pages', page.id, 'description'], page.description),
+    }),
+  };
+};
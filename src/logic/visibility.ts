@@ -0,0 +1,93 @@
+import { Question, VisibilityCondition, VisibilityOperator } from '../types/form';
+import { isMatrixAnswer } from './matrix';
+
+export const VISIBILITY_OPERATORS: { value: VisibilityOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'greater_than', label: 'is greater than' },
+  { value: 'less_than', label: 'is less than' },
+  { value: 'contains', label: 'contains' },
+  { value: 'is_empty', label: 'is empty' },
+];
+
+// List and matrix answers are empty when nothing is picked
+const isEmptyAnswer = (answer: unknown) =>
+  answer === undefined ||
+  answer === null ||
+  (typeof answer === 'object' ? Object.keys(answer).length === 0 : String(answer).trim() === '');
+
+const toNumber = (value: unknown) =>
+  isEmptyAnswer(value) ? NaN : Number(value);
+
+const answerEquals = (answer: unknown, expected: string) => {
+  if (Array.isArray(answer)) return answer.includes(expected);
+  if (isEmptyAnswer(answer)) return expected.trim() === '';
+
+  const [a, b] = [toNumber(answer), toNumber(expected)];
+  if (!isNaN(a) && !isNaN(b)) return a === b;
+  return String(answer).trim().toLowerCase() === expected.trim().toLowerCase();
+};
+
+export const evaluateCondition = (condition: VisibilityCondition, value: unknown): boolean => {
+  const expected = condition.value ?? '';
+  // A matrix answer is compared like a checkbox answer listing the columns picked in its rows
+  const answer = isMatrixAnswer(value) ? Object.values(value) : value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return answerEquals(answer, expected);
+    case 'not_equals':
+      return !answerEquals(answer, expected);
+    case 'greater_than':
+      return toNumber(answer) > toNumber(expected);
+    case 'less_than':
+      return toNumber(answer) < toNumber(expected);
+    case 'contains':
+      if (Array.isArray(answer)) return answer.includes(expected);
+      return String(answer ?? '').toLowerCase().includes(expected.toLowerCase());
+    case 'is_empty':
+      return isEmptyAnswer(answer);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Works out which questions are shown for the current answers. Questions are
+ * evaluated in order, and answers to hidden questions count as empty so that
+ * hiding a question also hides anything that depends on it.
+ */
+export const getVisibleQuestionIds = (
+  questions: Question[],
+  answers: Record<string, unknown>
+): Set<string> => {
+  const visible = new Set<string>();
+
+  questions.forEach((question) => {
+    const conditions = question.visibility?.conditions || [];
+    if (conditions.length === 0) {
+      visible.add(question.id);
+      return;
+    }
+
+    const results = conditions.map((condition) =>
+      evaluateCondition(
+        condition,
+        visible.has(condition.questionId) ? answers[condition.questionId] : undefined
+      )
+    );
+    const isVisible =
+      question.visibility?.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+
+    if (isVisible) {
+      visible.add(question.id);
+    }
+  });
+
+  return visible;
+};
+
+export const getVisibleQuestions = (questions: Question[], answers: Record<string, unknown>) => {
+  const visibleIds = getVisibleQuestionIds(questions, answers);
+  return questions.filter((question) => visibleIds.has(question.id));
+};
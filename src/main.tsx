@@ -3,11 +3,38 @@ import ReactDOM from 'react-dom/client';
 import { ChakraProvider } from '@chakra-ui/react';
 import App from './App';
 import theme from './theme';
+import {
+  FORM_SERVICE_STORAGE_KEYS,
+  configureFormService,
+  createFormService,
+} from './services/formService';
+import { createHttpFormService } from './services/httpFormService';
+import { StorageAdapterKind, setupStorage } from './services/storage';
+import { fileStore } from './services/fileStore';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <ChakraProvider theme={theme}>
-      <App />
-    </ChakraProvider>
-  </React.StrictMode>
-);
+const bootstrap = async () => {
+  const apiUrl = import.meta.env.VITE_API_URL;
+  const storageKind = (import.meta.env.VITE_STORAGE_ADAPTER || 'indexedDB') as StorageAdapterKind;
+
+  if (apiUrl) {
+    configureFormService(createHttpFormService(apiUrl));
+  } else {
+    try {
+      const storage = await setupStorage(storageKind, FORM_SERVICE_STORAGE_KEYS);
+      configureFormService(createFormService(storage, { files: fileStore }));
+    } catch (error) {
+      // Keep the app usable on the default localStorage service
+      console.error('Failed to set up storage:', error);
+    }
+  }
+
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <ChakraProvider theme={theme}>
+        <App />
+      </ChakraProvider>
+    </React.StrictMode>
+  );
+};
+
+bootstrap();
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createFormService, FormConflictError, FORM_SERVICE_STORAGE_KEYS } from '../formService';
+import { createMemoryStorageAdapter, StorageAdapter } from '../storage';
+import { createFormTranslator } from '../../logic/translations';
+import { migrateLocalStorageToIndexedDb } from '../storage/migrateToIndexedDb';
+
+describe('formService', () => {
+  let storage: StorageAdapter;
+  let service: ReturnType<typeof createFormService>;
+
+  beforeEach(() => {
+    storage = createMemoryStorageAdapter();
+    service = createFormService(storage, { getDelay: () => 0 });
+  });
+
+  it('keeps several forms side by side', async () => {
+    const first = await service.saveForm({ title: 'First', questions: [] });
+    const second = await service.saveForm({ title: 'Second', questions: [] });
+
+    expect((await service.getForms()).map((f) => f.title)).toEqual(['First', 'Second']);
+    expect(await service.getForm(second.id)).toEqual(second);
+
+    await service.deleteForm(first.id);
+    expect((await service.getForms()).map((f) => f.id)).toEqual([second.id]);
+  });
+
+  it('bumps the revision and records a snapshot on every update', async () => {
+    const form = await service.saveForm({ title: 'Draft', questions: [] });
+    const updated = await service.updateForm({ ...form, title: 'Final' });
+
+    expect(updated.revision).toBe(2);
+    expect((await service.getRevisions(form.id)).map((r) => [r.revision, r.snapshot.title])).toEqual([
+      [2, 'Final'],
+      [1, 'Draft'],
+    ]);
+  });
+
+  it('upserts questions by id', async () => {
+    const form = await service.saveForm({ title: 'Survey', questions: [] });
+    const question = { id: 'q1', type: 'text' as const, label: 'Name' };
+
+    const added = await service.saveQuestion(form.id, question, form.revision);
+    const edited = await service.saveQuestion(form.id, { ...question, label: 'Full name' }, added.revision);
+
+    expect(edited.revision).toBe(3);
+    expect(edited.questions).toEqual([{ ...question, label: 'Full name' }]);
+  });
+
+  it('rejects writes based on an older revision', async () => {
+    const form = await service.saveForm({ title: 'Survey', questions: [] });
+    const question = { id: 'q1', type: 'text' as const, label: 'Name' };
+    const current = await service.saveQuestion(form.id, question, form.revision);
+
+    await expect(service.updateForm({ ...form, title: 'Stale' })).rejects.toThrow(FormConflictError);
+    await expect(service.saveQuestion(form.id, question, form.revision)).rejects.toMatchObject({
+      current,
+    });
+    expect((await service.getForm(form.id)).title).toBe('Survey');
+  });
+
+  it('serialises concurrent writes', async () => {
+    await Promise.all([
+      service.saveForm({ title: 'A', questions: [] }),
+      service.saveForm({ title: 'B', questions: [] }),
+      service.saveForm({ title: 'C', questions: [] }),
+    ]);
+
+    expect(await service.getForms()).toHaveLength(3);
+  });
+
+  it('carries translations over to the questions of a duplicate', async () => {
+    const form = await service.saveForm({
+      title: 'Survey',
+      questions: [{ id: 'q1', type: 'text', label: 'Name' }],
+      translations: { de: { title: 'Umfrage', questions: { q1: { label: 'Name auf Deutsch' } } } },
+    });
+
+    const copy = await service.duplicateForm(form.id);
+    const [question] = copy.questions;
+
+    expect(question.id).not.toBe('q1');
+    expect(copy.translations?.de.title).toBe('Umfrage');
+    expect(createFormTranslator(copy, 'de').question(question).label).toBe('Name auf Deutsch');
+  });
+
+  it('points formula references by id at the duplicated questions', async () => {
+    const form = await service.saveForm({
+      title: 'Order',
+      questions: [
+        { id: 'q1', type: 'number', label: 'Price' },
+        { id: 'q2', type: 'number', label: 'Quantity' },
+        { id: 'q3', type: 'calculated', label: 'Total', formula: '{q1} * { q2 } + {Quantity}' },
+      ],
+    });
+
+    const copy = await service.duplicateForm(form.id);
+    const [first, second, total] = copy.questions;
+
+    expect(total.formula).toBe(`{${first.id}} * {${second.id}} + {Quantity}`);
+  });
+
+  it('deletes the uploaded files of deleted responses', async () => {
+    const files = { deleteFile: vi.fn(async () => undefined) };
+    service = createFormService(storage, { getDelay: () => 0, files });
+    const file = (id: string) => [{ id, name: `${id}.pdf`, type: 'application/pdf', size: 4 }];
+    const form = await service.saveForm({ title: 'Applications', questions: [] });
+    const first = await service.saveSubmission(form.id, { cv: file('cv1'), name: 'Ada' });
+    await service.saveSubmission(form.id, { cv: file('cv2') });
+
+    await service.deleteSubmission(first.id);
+    expect(files.deleteFile.mock.calls).toEqual([['cv1']]);
+
+    await service.deleteForm(form.id);
+    expect(files.deleteFile.mock.calls).toEqual([['cv1'], ['cv2']]);
+  });
+
+  it('reports missing records with a specific message', async () => {
+    await expect(service.getForm('missing')).rejects.toThrow('Form not found');
+    await expect(service.deleteSubmission('missing')).rejects.toThrow('Submission not found');
+  });
+
+  it('maps storage failures to a generic message', async () => {
+    const failing = createFormService(
+      { ...storage, getItem: () => Promise.reject(new Error('quota')) },
+      { getDelay: () => 0 }
+    );
+    await expect(failing.getForms()).rejects.toThrow('Failed to fetch forms');
+  });
+});
+
+describe('migrateLocalStorageToIndexedDb', () => {
+  it('moves legacy keys once without overwriting existing data', async () => {
+    const [formsKey, submissionsKey] = FORM_SERVICE_STORAGE_KEYS;
+    localStorage.setItem(formsKey, JSON.stringify([{ id: 'legacy' }]));
+    localStorage.setItem(submissionsKey, JSON.stringify([{ id: 'old' }]));
+    const target = createMemoryStorageAdapter({ [submissionsKey]: [{ id: 'new' }] });
+
+    await migrateLocalStorageToIndexedDb(FORM_SERVICE_STORAGE_KEYS, target);
+
+    expect(await target.getItem(formsKey)).toEqual([{ id: 'legacy' }]);
+    expect(await target.getItem(submissionsKey)).toEqual([{ id: 'new' }]);
+    expect(localStorage.getItem(formsKey)).toBeNull();
+    // Not copied, so not removed either
+    expect(localStorage.getItem(submissionsKey)).toBe(JSON.stringify([{ id: 'old' }]));
+
+    localStorage.setItem(formsKey, JSON.stringify([{ id: 'later' }]));
+    await migrateLocalStorageToIndexedDb(FORM_SERVICE_STORAGE_KEYS, target);
+    expect(await target.getItem(formsKey)).toEqual([{ id: 'legacy' }]);
+  });
+});
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createReferenceServer } from '../../../server/createServer';
+import { createFormService, FormConflictError, FormService } from '../formService';
+import { createHttpFormService } from '../httpFormService';
+import { createMemoryStorageAdapter } from '../storage';
+
+describe('httpFormService against the reference server', () => {
+  let server: Server;
+  let service: FormService;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createReferenceServer(
+      createFormService(createMemoryStorageAdapter(), { getDelay: () => 0 })
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    service = createHttpFormService(`${baseUrl}/`);
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('stores forms, revisions and submissions on the server', async () => {
+    const form = await service.saveForm({ title: 'Remote', questions: [] });
+    const question = { id: 'q1', type: 'text' as const, label: 'Name' };
+    const withQuestion = await service.saveQuestion(form.id, question, form.revision);
+    const updated = await service.updateForm({ ...withQuestion, title: 'Renamed' });
+
+    expect(updated.revision).toBe(3);
+    expect((await service.getForm(form.id)).questions).toEqual([question]);
+    expect((await service.getRevision(form.id, 1)).snapshot.title).toBe('Remote');
+
+    const submission = await service.saveSubmission(form.id, { [question.id]: 'Ada' });
+    expect(await service.getSubmissions(form.id)).toEqual([submission]);
+
+    await service.deleteSubmission(submission.id);
+    await service.deleteForm(form.id);
+    expect(await service.getForms()).toEqual([]);
+  });
+
+  it('maps missing records to the local service messages', async () => {
+    await expect(service.getForm('missing')).rejects.toThrow('Form not found');
+    await expect(service.getSubmission('missing')).rejects.toThrow('Submission not found');
+  });
+
+  it('maps stale writes to a conflict carrying the stored form', async () => {
+    const form = await service.saveForm({ title: 'Shared', questions: [] });
+    await service.updateForm({ ...form, title: 'First writer' });
+
+    const error = await service.updateForm({ ...form, title: 'Second writer' }).catch((e) => e);
+    expect(error).toBeInstanceOf(FormConflictError);
+    expect(error.current).toMatchObject({ title: 'First writer', revision: 2 });
+  });
+
+  it('answers malformed URL escapes with 400 and keeps serving', async () => {
+    const response = await fetch(`${baseUrl}/forms/%E0%A4%A`);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Malformed URL' });
+    expect(await service.getForms()).toBeInstanceOf(Array);
+  });
+
+  it('rejects form bodies that are not valid form definitions', async () => {
+    const post = await fetch(`${baseUrl}/forms`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: 'No questions' }),
+    });
+    expect(post.status).toBe(400);
+    expect((await post.json()).errors).toEqual(['questions: Required']);
+
+    const form = await service.saveForm({ title: 'Valid', questions: [] });
+    const put = await fetch(`${baseUrl}/forms/${form.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...form, questions: [{ id: 'q1', type: 'text', label: 7 }] }),
+    });
+    expect(put.status).toBe(400);
+    expect(await service.getForm(form.id)).toEqual(form);
+    expect((await service.getForms()).map((f) => f.title)).not.toContain('No questions');
+  });
+
+  it('rejects malformed question saves and submissions', async () => {
+    const form = await service.saveForm({ title: 'Survey', questions: [] });
+    const write = (method: string, path: string, body?: unknown) =>
+      fetch(`${baseUrl}/forms/${form.id}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+    const missing = await write('PUT', '/questions/q1');
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).errors).toEqual(['Required']);
+
+    const badLabel = await write('PUT', '/questions/q1', {
+      question: { type: 'text', label: 7 },
+      revision: form.revision,
+    });
+    expect(badLabel.status).toBe(400);
+    expect((await badLabel.json()).errors).toEqual(['question.label: Expected string, received number']);
+
+    const badRevision = await write('PUT', '/questions/q1', {
+      question: { type: 'text', label: 'Name' },
+      revision: 'latest',
+    });
+    expect(badRevision.status).toBe(400);
+
+    const badAnswers = await write('POST', '/submissions', { name: { nested: [1] } });
+    expect(badAnswers.status).toBe(400);
+    expect(await write('POST', '/submissions', 'Ada')).toHaveProperty('status', 400);
+
+    expect(await service.getForm(form.id)).toEqual(form);
+    expect(await service.getSubmissions(form.id)).toEqual([]);
+  });
+
+  it('maps unreachable servers to the generic message', async () => {
+    const offline = createHttpFormService('http://127.0.0.1:9', () =>
+      Promise.reject(new TypeError('fetch failed'))
+    );
+    await expect(offline.getForms()).rejects.toThrow('Failed to fetch forms');
+  });
+});
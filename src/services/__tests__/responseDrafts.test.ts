@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { Form, OTHER_OPTION_VALUE } from '../../types/form';
+import { createResponseDraft, createResponseDraftStore, isDraftCompatible } from '../responseDrafts';
+import { createMemoryStorageAdapter } from '../storage';
+
+const form: Form = {
+  id: 'f1',
+  title: 'Survey',
+  revision: 2,
+  createdAt: 0,
+  updatedAt: 0,
+  questions: [
+    { id: 'name', type: 'text', label: 'Name' },
+    {
+      id: 'plan',
+      type: 'radio',
+      label: 'Plan',
+      options: [{ id: 'o1', label: 'Basic' }, { id: 'o2', label: 'Pro' }],
+      allowOther: true,
+    },
+    { id: 'total', type: 'calculated', label: 'Total', formula: '1 + 1' },
+    { id: 'source', type: 'hidden', label: 'Source' },
+  ],
+};
+
+describe('responseDrafts', () => {
+  it('keeps answered questions only', () => {
+    const draft = createResponseDraft(
+      form,
+      { name: 'Asha', plan: OTHER_OPTION_VALUE, plan_other: 'Team', total: 2, source: 'mail' },
+      1
+    );
+    expect(draft).toMatchObject({
+      formId: 'f1',
+      answers: { name: 'Asha', plan: OTHER_OPTION_VALUE, plan_other: 'Team' },
+      questionTypes: { name: 'text', plan: 'radio' },
+      pageIndex: 1,
+    });
+    expect(createResponseDraft(form, { name: ' ', plan: '', total: 2 }, 0)).toBeNull();
+  });
+
+  it('discards drafts whose answers no longer fit the form', () => {
+    const draft = createResponseDraft(form, { name: 'Asha', plan: 'Pro' }, 0)!;
+    const withQuestions = (questions: Form['questions']) => ({ ...form, questions });
+
+    expect(isDraftCompatible(draft, form)).toBe(true);
+    expect(
+      isDraftCompatible(draft, withQuestions([...form.questions, { id: 'age', type: 'number', label: 'Age' }]))
+    ).toBe(true);
+    expect(isDraftCompatible(draft, withQuestions(form.questions.slice(1)))).toBe(false);
+    expect(
+      isDraftCompatible(draft, withQuestions([{ ...form.questions[0], type: 'number' }, ...form.questions.slice(1)]))
+    ).toBe(false);
+    expect(
+      isDraftCompatible(
+        draft,
+        withQuestions([form.questions[0], { ...form.questions[1], options: [{ id: 'o1', label: 'Basic' }] }])
+      )
+    ).toBe(false);
+  });
+
+  it('stores one draft per form for the same respondent', async () => {
+    const storage = createMemoryStorageAdapter();
+    const store = createResponseDraftStore(storage);
+    const draft = createResponseDraft(form, { name: 'Asha' }, 0)!;
+
+    await store.saveDraft(draft);
+    expect(await store.getDraft('f1')).toEqual(draft);
+    expect(await store.getDraft('f2')).toBeNull();
+    // A new store on the same storage finds the respondent again
+    expect(await createResponseDraftStore(storage).getDraft('f1')).toEqual(draft);
+
+    await store.clearDraft('f1');
+    expect(await store.getDraft('f1')).toBeNull();
+  });
+});
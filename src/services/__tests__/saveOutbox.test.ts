@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Form } from '../../types/form';
+import { applyOutboxEntries, createSaveOutbox, getRetryDelay } from '../saveOutbox';
+import { createMemoryStorageAdapter } from '../storage';
+
+const form: Form = {
+  id: 'f1',
+  title: 'Survey',
+  revision: 4,
+  createdAt: 0,
+  updatedAt: 0,
+  questions: [{ id: 'q1', type: 'text', label: 'Name' }],
+};
+
+describe('saveOutbox', () => {
+  it('keeps saves in order and collapses repeated saves of the same target', async () => {
+    const outbox = createSaveOutbox(createMemoryStorageAdapter());
+
+    await outbox.add({ kind: 'question', formId: 'f1', question: { ...form.questions[0], label: 'N' } });
+    await outbox.add({ kind: 'question', formId: 'f1', question: { ...form.questions[0], label: 'Na' } });
+    await outbox.add({ kind: 'form', formId: 'f1', form: { ...form, title: 'Renamed' } });
+    await outbox.add({ kind: 'form', formId: 'f2', form: { ...form, id: 'f2' } });
+
+    const entries = await outbox.getEntries('f1');
+    expect(entries.map((e) => e.kind)).toEqual(['question', 'form']);
+    expect(entries[0].kind === 'question' && entries[0].question.label).toBe('Na');
+
+    await outbox.remove(entries[0].id);
+    await outbox.clear('f2');
+    expect((await outbox.getEntries('f1')).map((e) => e.kind)).toEqual(['form']);
+    expect(await outbox.getEntries('f2')).toEqual([]);
+  });
+
+  it('replays queued saves on top of a loaded form', async () => {
+    const outbox = createSaveOutbox(createMemoryStorageAdapter());
+    await outbox.add({ kind: 'question', formId: 'f1', question: { ...form.questions[0], label: 'Full name' } });
+    await outbox.add({ kind: 'question', formId: 'f1', question: { id: 'q2', type: 'number', label: 'Age' } });
+
+    const restored = applyOutboxEntries(form, await outbox.getEntries('f1'));
+    expect(restored.revision).toBe(4);
+    expect(restored.questions.map((q) => q.label)).toEqual(['Full name', 'Age']);
+  });
+
+  it('backs off exponentially up to a cap', () => {
+    expect([0, 1, 2, 10].map(getRetryDelay)).toEqual([1000, 2000, 4000, 30000]);
+  });
+});
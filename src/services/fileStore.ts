@@ -0,0 +1,60 @@
+import { nanoid } from 'nanoid';
+import { FileAnswer } from '../types/form';
+import { StorageAdapter, createIndexedDbAdapter } from './storage';
+import { isIndexedDbAvailable } from './storage/indexedDbAdapter';
+
+const FILE_KEY_PREFIX = 'file';
+
+interface StoredFile extends FileAnswer {
+  blob: Blob;
+  storedAt: number;
+}
+
+const getKey = (id: string) => `${FILE_KEY_PREFIX}:${id}`;
+
+/**
+ * Keeps the content of uploaded files in the browser; answers only hold a
+ * `FileAnswer` reference. The adapter has to store Blobs as they are, which
+ * IndexedDB does and the JSON-based adapters don't.
+ */
+export const createFileStore = (storage?: StorageAdapter) => {
+  // Opened on first use, in a database of its own so form data stays small
+  const getStorage = () => {
+    if (!storage) {
+      if (!isIndexedDbAvailable()) {
+        throw new Error('Failed to store file: this browser does not support IndexedDB');
+      }
+      storage = createIndexedDbAdapter('form_builder_files');
+    }
+    return storage;
+  };
+
+  return {
+    async putFile(file: File): Promise<FileAnswer> {
+      const answer: FileAnswer = {
+        id: nanoid(),
+        name: file.name,
+        type: file.type || 'application/octet-stream',
+        size: file.size,
+      };
+      await getStorage().setItem<StoredFile>(getKey(answer.id), {
+        ...answer,
+        blob: file,
+        storedAt: Date.now(),
+      });
+      return answer;
+    },
+
+    async getFile(id: string): Promise<Blob | null> {
+      return (await getStorage().getItem<StoredFile>(getKey(id)))?.blob ?? null;
+    },
+
+    async deleteFile(id: string): Promise<void> {
+      await getStorage().removeItem(getKey(id));
+    },
+  };
+};
+
+export type FileStore = ReturnType<typeof createFileStore>;
+
+export const fileStore = createFileStore();
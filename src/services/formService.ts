@@ -1,120 +1,353 @@
-import { Form, Question } from '../types/form';
+import {
+  Form,
+  FormRevision,
+  FormTranslation,
+  FormValues,
+  Question,
+  Submission,
+} from '../types/form';
 import { nanoid } from 'nanoid';
+import { StorageAdapter, createLocalStorageAdapter } from './storage';
+import { FileStore } from './fileStore';
+import { getFileAnswerIds } from '../logic/fileUpload';
 
 const STORAGE_KEY = 'form_builder_forms';
+const SUBMISSIONS_KEY = 'form_builder_submissions';
+const REVISIONS_KEY = 'form_builder_revisions';
+
+// Every key the service writes, e.g. for moving data between adapters
+export const FORM_SERVICE_STORAGE_KEYS = [STORAGE_KEY, SUBMISSIONS_KEY, REVISIONS_KEY];
 
 const getRandomDelay = () => Math.floor(Math.random() * 500) + 500; // 0.5-1 second delay
 
-export const formService = {
-  async saveForm(form: Omit<Form, 'id' | 'createdAt' | 'updatedAt'>): Promise<Form> {
-    return new Promise((resolve, reject) => {
-      setTimeout(() => {
-        try {
-          const newForm: Form = {
-            ...form,
-            id: nanoid(),
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-          };
-
-          localStorage.setItem(STORAGE_KEY, JSON.stringify([newForm]));
-          resolve(newForm);
-        } catch (error) {
-          console.error('Failed to save form:', error);
-          reject(new Error('Failed to save form'));
-        }
-      }, getRandomDelay());
-    });
-  },
-
-  async updateForm(form: Form): Promise<Form> {
-    return new Promise((resolve, reject) => {
-      setTimeout(() => {
-        try {
-          const updatedForm = {
-            ...form,
-            updatedAt: Date.now(),
-          };
-
-          localStorage.setItem(STORAGE_KEY, JSON.stringify([updatedForm]));
-          resolve(updatedForm);
-        } catch (error) {
-          console.error('Failed to update form:', error);
-          reject(new Error('Failed to update form'));
-        }
-      }, getRandomDelay());
-    });
-  },
-
-  async saveQuestion(formId: string, question: Omit<Question, 'id'>): Promise<Question> {
-    return new Promise((resolve, reject) => {
-      setTimeout(() => {
-        try {
-          const forms = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
-          const form = forms.find((f: Form) => f.id === formId);
-          
-          if (!form) {
-            reject(new Error('Form not found'));
-            return;
-          }
-
-          const newQuestion: Question = {
-            ...question,
-            id: nanoid(),
-          };
-
-          const updatedForm = {
-            ...form,
-            questions: [...form.questions, newQuestion],
-            updatedAt: Date.now(),
-          };
-          
-          const updatedForms = forms.map((f: Form) => 
-            f.id === formId ? updatedForm : f
-          );
-          
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedForms));
-          resolve(newQuestion);
-        } catch (error) {
-          console.error('Failed to save question:', error);
-          reject(new Error('Failed to save question'));
+// Re-keys each locale's question texts to the ids of a duplicated form
+const remapTranslations = (
+  translations: Record<string, FormTranslation>,
+  idMap: Map<string, string>
+): Record<string, FormTranslation> =>
+  Object.fromEntries(
+    Object.entries(translations).map(([locale, translation]) => [
+      locale,
+      {
+        ...translation,
+        questions:
+          translation.questions &&
+          Object.fromEntries(
+            Object.entries(translation.questions).map(([id, texts]) => [idMap.get(id) ?? id, texts])
+          ),
+      },
+    ])
+  );
+
+// Points "{id}" references at the duplicated questions; label references stay as they are
+const remapFormulaReferences = (formula: string, idMap: Map<string, string>) =>
+  formula.replace(/\{([^}]*)\}/g, (reference, name: string) => {
+    const id = idMap.get(name.trim());
+    return id ? `{${id}}` : reference;
+  });
+
+// Lookup failures keep their own message instead of the generic one
+class NotFoundError extends Error {}
+
+/**
+ * Thrown when a write is based on an older revision than the stored form.
+ * Carries the stored form so callers can reload it or overwrite it.
+ */
+export class FormConflictError extends Error {
+  readonly current: Form;
+
+  constructor(current: Form) {
+    super('Form was changed by another save');
+    this.name = 'FormConflictError';
+    this.current = current;
+  }
+}
+
+interface FormServiceOptions {
+  getDelay?: () => number;
+  // Where answers' uploaded files are kept; deleting responses deletes their files too
+  files?: Pick<FileStore, 'deleteFile'>;
+}
+
+/**
+ * Builds the form service on top of a storage adapter. Writes are read-modify-
+ * write cycles over whole collections, so they are run one at a time.
+ */
+export const createFormService = (
+  storage: StorageAdapter,
+  { getDelay = getRandomDelay, files }: FormServiceOptions = {}
+) => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Runs once the responses are gone; a file that can't be deleted only wastes space
+  const deleteAnswerFiles = async (submissions: Submission[]) => {
+    if (!files) return;
+    const ids = submissions.flatMap((submission) => getFileAnswerIds(submission.answers));
+    await Promise.all(
+      ids.map((id) =>
+        files.deleteFile(id).catch((error) => console.error('Failed to delete file:', error))
+      )
+    );
+  };
+
+  const run = async <T>(failureMessage: string, operation: () => Promise<T>): Promise<T> => {
+    await new Promise((resolve) => setTimeout(resolve, getDelay()));
+
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+
+    try {
+      return await result;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new Error(error.message);
+      }
+      if (error instanceof FormConflictError) {
+        throw error;
+      }
+      console.error(`${failureMessage}:`, error);
+      throw new Error(failureMessage);
+    }
+  };
+
+  // Forms stored before revisions existed are treated as revision 1
+  const readForms = async (): Promise<Form[]> =>
+    ((await storage.getItem<Form[]>(STORAGE_KEY)) || []).map((f) => ({
+      ...f,
+      revision: f.revision ?? 1,
+    }));
+
+  const writeForms = (forms: Form[]) => storage.setItem(STORAGE_KEY, forms);
+
+  const readRevisions = async (): Promise<FormRevision[]> =>
+    (await storage.getItem<FormRevision[]>(REVISIONS_KEY)) || [];
+
+  const writeRevisions = (revisions: FormRevision[]) => storage.setItem(REVISIONS_KEY, revisions);
+
+  // Every stored version of a form is kept as an immutable snapshot
+  const recordRevision = async (form: Form) => {
+    await writeRevisions([
+      ...(await readRevisions()),
+      {
+        id: nanoid(),
+        formId: form.id,
+        revision: form.revision,
+        snapshot: form,
+        createdAt: form.updatedAt,
+      },
+    ]);
+  };
+
+  const readSubmissions = async (): Promise<Submission[]> =>
+    (await storage.getItem<Submission[]>(SUBMISSIONS_KEY)) || [];
+
+  const writeSubmissions = (submissions: Submission[]) =>
+    storage.setItem(SUBMISSIONS_KEY, submissions);
+
+  const findForm = async (id: string) => {
+    const form = (await readForms()).find((f) => f.id === id);
+    if (!form) {
+      throw new NotFoundError('Form not found');
+    }
+    return form;
+  };
+
+  // Optimistic concurrency: a write must name the revision it was based on
+  const findFormAtRevision = async (id: string, expectedRevision: number) => {
+    const form = await findForm(id);
+    if (form.revision !== expectedRevision) {
+      throw new FormConflictError(form);
+    }
+    return form;
+  };
+
+  const commitForm = async (form: Form) => {
+    const updatedForm = { ...form, revision: form.revision + 1, updatedAt: Date.now() };
+    const forms = await readForms();
+    await writeForms(forms.map((f) => (f.id === form.id ? updatedForm : f)));
+    await recordRevision(updatedForm);
+    return updatedForm;
+  };
+
+  return {
+    async saveForm(form: Omit<Form, 'id' | 'revision' | 'createdAt' | 'updatedAt'>): Promise<Form> {
+      return run('Failed to save form', async () => {
+        const newForm: Form = {
+          ...form,
+          id: nanoid(),
+          revision: 1,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        };
+
+        await writeForms([...(await readForms()), newForm]);
+        await recordRevision(newForm);
+        return newForm;
+      });
+    },
+
+    async updateForm(form: Form): Promise<Form> {
+      return run('Failed to update form', async () => {
+        await findFormAtRevision(form.id, form.revision);
+        return commitForm(form);
+      });
+    },
+
+    async duplicateForm(id: string): Promise<Form> {
+      return run('Failed to duplicate form', async () => {
+        const form = await findForm(id);
+
+        // Copies get fresh question ids, so rules pointing at other questions follow them
+        const idMap = new Map(form.questions.map((q) => [q.id, nanoid()]));
+        const copy: Form = {
+          ...form,
+          id: nanoid(),
+          title: `${form.title || 'Untitled form'} (copy)`,
+          questions: form.questions.map((q) => ({
+            ...q,
+            id: idMap.get(q.id)!,
+            formula: q.formula && remapFormulaReferences(q.formula, idMap),
+            visibility: q.visibility && {
+              ...q.visibility,
+              conditions: q.visibility.conditions.map((c) => ({
+                ...c,
+                questionId: idMap.get(c.questionId) ?? c.questionId,
+              })),
+            },
+          })),
+          translations: form.translations && remapTranslations(form.translations, idMap),
+          archived: false,
+          revision: 1,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        };
+
+        await writeForms([...(await readForms()), copy]);
+        await recordRevision(copy);
+        return copy;
+      });
+    },
+
+    async deleteForm(id: string): Promise<void> {
+      return run('Failed to delete form', async () => {
+        await findForm(id);
+
+        const submissions = await readSubmissions();
+        await writeForms((await readForms()).filter((f) => f.id !== id));
+        await writeSubmissions(submissions.filter((s) => s.formId !== id));
+        await writeRevisions((await readRevisions()).filter((r) => r.formId !== id));
+        await deleteAnswerFiles(submissions.filter((s) => s.formId === id));
+      });
+    },
+
+    /**
+     * Inserts or replaces a question by id. New questions go to the end of the
+     * form. Resolves with the updated form, whose revision the next write needs.
+     */
+    async saveQuestion(formId: string, question: Question, expectedRevision: number): Promise<Form> {
+      return run('Failed to save question', async () => {
+        const form = await findFormAtRevision(formId, expectedRevision);
+        const exists = form.questions.some((q) => q.id === question.id);
+
+        return commitForm({
+          ...form,
+          questions: exists
+            ? form.questions.map((q) => (q.id === question.id ? question : q))
+            : [...form.questions, question],
+        });
+      });
+    },
+
+    async getForms(): Promise<Form[]> {
+      return run('Failed to fetch forms', readForms);
+    },
+
+    async getForm(id: string): Promise<Form> {
+      return run('Failed to fetch form', () => findForm(id));
+    },
+
+    async saveSubmission(formId: string, answers: FormValues): Promise<Submission> {
+      return run('Failed to save submission', async () => {
+        const form = await findForm(formId);
+
+        const submission: Submission = {
+          id: nanoid(),
+          formId,
+          formRevision: form.revision,
+          answers,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        };
+
+        await writeSubmissions([...(await readSubmissions()), submission]);
+        return submission;
+      });
+    },
+
+    async getSubmissions(formId: string): Promise<Submission[]> {
+      return run('Failed to fetch submissions', async () =>
+        (await readSubmissions())
+          .filter((s) => s.formId === formId)
+          .sort((a, b) => b.createdAt - a.createdAt)
+      );
+    },
+
+    async getSubmission(id: string): Promise<Submission> {
+      return run('Failed to fetch submission', async () => {
+        const submission = (await readSubmissions()).find((s) => s.id === id);
+        if (!submission) {
+          throw new NotFoundError('Submission not found');
         }
-      }, getRandomDelay());
-    });
-  },
-
-  async getForms(): Promise<Form[]> {
-    return new Promise((resolve, reject) => {
-      setTimeout(() => {
-        try {
-          const forms = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
-          resolve(forms);
-        } catch (error) {
-          console.error('Failed to fetch forms:', error);
-          reject(new Error('Failed to fetch forms'));
+        return submission;
+      });
+    },
+
+    async deleteSubmission(id: string): Promise<void> {
+      return run('Failed to delete submission', async () => {
+        const submissions = await readSubmissions();
+        const submission = submissions.find((s) => s.id === id);
+        if (!submission) {
+          throw new NotFoundError('Submission not found');
         }
-      }, getRandomDelay());
-    });
-  },
-
-  async getForm(): Promise<Form> {
-    return new Promise((resolve, reject) => {
-      setTimeout(() => {
-        try {
-          const forms = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
-          const form = forms[0];
-          
-          if (!form) {
-            reject(new Error('Form not found'));
-            return;
-          }
-
-          resolve(form);
-        } catch (error) {
-          console.error('Failed to fetch form:', error);
-          reject(new Error('Failed to fetch form'));
+        await writeSubmissions(submissions.filter((s) => s.id !== id));
+        await deleteAnswerFiles([submission]);
+      });
+    },
+
+    async getRevisions(formId: string): Promise<FormRevision[]> {
+      return run('Failed to fetch revisions', async () =>
+        (await readRevisions())
+          .filter((r) => r.formId === formId)
+          .sort((a, b) => b.revision - a.revision)
+      );
+    },
+
+    async getRevision(formId: string, revision: number): Promise<FormRevision> {
+      return run('Failed to fetch revision', async () => {
+        const found = (await readRevisions()).find(
+          (r) => r.formId === formId && r.revision === revision
+        );
+        if (!found) {
+          throw new NotFoundError('Revision not found');
         }
-      }, getRandomDelay());
-    });
-  },
-}; 
\ No newline at end of file
+        return found;
+      });
+    },
+  };
+};
+
+export type FormService = ReturnType<typeof createFormService>;
+
+let activeService: FormService = createFormService(createLocalStorageAdapter());
+
+/**
+ * Swaps the implementation behind `formService`. Call once at startup,
+ * before anything has been loaded.
+ */
+export const configureFormService = (service: FormService) => {
+  activeService = service;
+};
+
+export const formService = new Proxy({} as FormService, {
+  get: (_target, method: keyof FormService) => activeService[method],
+});
@@ -0,0 +1,104 @@
+import { Form, FormRevision, FormValues, Question, Submission } from '../types/form';
+import { FormConflictError, FormService } from './formService';
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+}
+
+/**
+ * REST implementation of the form service. Errors carry the same messages as
+ * the local service: "... not found" for 404 responses, `FormConflictError`
+ * for 409 responses and the generic "Failed to ..." message for everything
+ * else, including network failures.
+ */
+export const createHttpFormService = (
+  baseUrl: string,
+  fetchImpl: typeof fetch = (...args) => fetch(...args)
+): FormService => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(
+    failureMessage: string,
+    path: string,
+    { method = 'GET', body }: RequestOptions = {}
+  ): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${root}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      throw new Error(failureMessage);
+    }
+
+    if (response.status === 404) {
+      const payload = await response.json().catch(() => null);
+      throw new Error(payload?.error || 'Not found');
+    }
+
+    if (response.status === 409) {
+      const payload = await response.json();
+      throw new FormConflictError(payload.current);
+    }
+
+    if (!response.ok) {
+      console.error(`${failureMessage}: HTTP ${response.status}`);
+      throw new Error(failureMessage);
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+
+  const formPath = (id: string) => `/forms/${encodeURIComponent(id)}`;
+  const submissionPath = (id: string) => `/submissions/${encodeURIComponent(id)}`;
+
+  return {
+    saveForm: (form: Omit<Form, 'id' | 'revision' | 'createdAt' | 'updatedAt'>) =>
+      request<Form>('Failed to save form', '/forms', { method: 'POST', body: form }),
+
+    updateForm: (form: Form) =>
+      request<Form>('Failed to update form', formPath(form.id), { method: 'PUT', body: form }),
+
+    duplicateForm: (id: string) =>
+      request<Form>('Failed to duplicate form', `${formPath(id)}/duplicate`, { method: 'POST' }),
+
+    deleteForm: (id: string) =>
+      request<void>('Failed to delete form', formPath(id), { method: 'DELETE' }),
+
+    saveQuestion: (formId: string, question: Question, expectedRevision: number) =>
+      request<Form>(
+        'Failed to save question',
+        `${formPath(formId)}/questions/${encodeURIComponent(question.id)}`,
+        { method: 'PUT', body: { question, revision: expectedRevision } }
+      ),
+
+    getForms: () => request<Form[]>('Failed to fetch forms', '/forms'),
+
+    getForm: (id: string) => request<Form>('Failed to fetch form', formPath(id)),
+
+    saveSubmission: (formId: string, answers: FormValues) =>
+      request<Submission>('Failed to save submission', `${formPath(formId)}/submissions`, {
+        method: 'POST',
+        body: answers,
+      }),
+
+    getSubmissions: (formId: string) =>
+      request<Submission[]>('Failed to fetch submissions', `${formPath(formId)}/submissions`),
+
+    getSubmission: (id: string) =>
+      request<Submission>('Failed to fetch submission', submissionPath(id)),
+
+    deleteSubmission: (id: string) =>
+      request<void>('Failed to delete submission', submissionPath(id), { method: 'DELETE' }),
+
+    getRevisions: (formId: string) =>
+      request<FormRevision[]>('Failed to fetch revisions', `${formPath(formId)}/revisions`),
+
+    getRevision: (formId: string, revision: number) =>
+      request<FormRevision>('Failed to fetch revision', `${formPath(formId)}/revisions/${revision}`),
+  };
+};
@@ -0,0 +1,127 @@
+import { nanoid } from 'nanoid';
+import { CHOICE_QUESTION_TYPES, Form, OTHER_OPTION_VALUE, Question, QuestionType } from '../types/form';
+import { otherFieldName } from '../validation/questionSchema';
+import { getScaleRange } from '../logic/scales';
+import { isMatrixAnswer } from '../logic/matrix';
+import { StorageAdapter, createLocalStorageAdapter } from './storage';
+
+const DRAFT_KEY_PREFIX = 'form_builder_draft';
+const RESPONDENT_KEY = 'form_builder_respondent';
+
+export interface ResponseDraft {
+  formId: string;
+  answers: Record<string, unknown>;
+  // Type of each answered question when the draft was saved
+  questionTypes: Record<string, QuestionType>;
+  pageIndex: number;
+  savedAt: number;
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'object' ? Object.keys(value).length === 0 : String(value).trim() === '');
+
+// Calculated answers are recomputed and hidden ones come from the link, so neither is kept
+const isDraftable = (question: Question) =>
+  question.type !== null && question.type !== 'calculated' && question.type !== 'hidden';
+
+/**
+ * Captures the respondent's answers so far, or returns null when nothing has
+ * been answered yet.
+ */
+export const createResponseDraft = (
+  form: Form,
+  values: Record<string, unknown>,
+  pageIndex: number
+): ResponseDraft | null => {
+  const answers: Record<string, unknown> = {};
+  const questionTypes: Record<string, QuestionType> = {};
+
+  form.questions.filter(isDraftable).forEach((question) => {
+    if (isBlank(values[question.id])) return;
+    answers[question.id] = values[question.id];
+    questionTypes[question.id] = question.type;
+
+    const otherField = otherFieldName(question.id);
+    if (question.allowOther && !isBlank(values[otherField])) {
+      answers[otherField] = values[otherField];
+    }
+  });
+
+  if (!Object.keys(questionTypes).length) return null;
+  return { formId: form.id, answers, questionTypes, pageIndex, savedAt: Date.now() };
+};
+
+/**
+ * A draft can be restored while every answer in it still fits the form: its
+ * question exists with the same type, chosen options and matrix rows are
+ * still offered, and ratings are still in range. Questions added since are
+ * simply unanswered.
+ */
+export const isDraftCompatible = (draft: ResponseDraft, form: Form) =>
+  draft.formId === form.id &&
+  Object.entries(draft.questionTypes).every(([questionId, type]) => {
+    const question = form.questions.find((q) => q.id === questionId);
+    if (!question || question.type !== type) return false;
+
+    const labels = (question.options || []).map((option) => option.label);
+    const value = draft.answers[questionId];
+
+    if (type === 'rating' || type === 'scale') {
+      const { min, max } = getScaleRange(question);
+      return Number(value) >= min && Number(value) <= max;
+    }
+    if (type === 'matrix') {
+      const rows = (question.rows || []).map((row) => row.label);
+      return (
+        isMatrixAnswer(value) &&
+        Object.entries(value).every(([row, column]) => rows.includes(row) && labels.includes(column))
+      );
+    }
+    if (!CHOICE_QUESTION_TYPES.includes(type)) return true;
+
+    return (Array.isArray(value) ? value : [value]).every(
+      (choice) =>
+        labels.includes(String(choice)) || (choice === OTHER_OPTION_VALUE && !!question.allowOther)
+    );
+  });
+
+/**
+ * Keeps respondents' unfinished answers, one draft per form and respondent.
+ * Drafts stay in browser storage so they survive reloads and later visits.
+ */
+export const createResponseDraftStore = (storage: StorageAdapter = createLocalStorageAdapter()) => {
+  let respondentId: Promise<string> | null = null;
+
+  // Created on first use and kept, so the respondent finds their drafts again
+  const getRespondentId = () => {
+    respondentId ??= storage.getItem<string>(RESPONDENT_KEY).then(async (existing) => {
+      if (existing) return existing;
+      const id = nanoid();
+      await storage.setItem(RESPONDENT_KEY, id);
+      return id;
+    });
+    return respondentId;
+  };
+
+  const getKey = async (formId: string) => `${DRAFT_KEY_PREFIX}:${formId}:${await getRespondentId()}`;
+
+  return {
+    async getDraft(formId: string): Promise<ResponseDraft | null> {
+      return storage.getItem<ResponseDraft>(await getKey(formId));
+    },
+
+    async saveDraft(draft: ResponseDraft): Promise<void> {
+      await storage.setItem(await getKey(draft.formId), draft);
+    },
+
+    async clearDraft(formId: string): Promise<void> {
+      await storage.removeItem(await getKey(formId));
+    },
+  };
+};
+
+export type ResponseDraftStore = ReturnType<typeof createResponseDraftStore>;
+
+export const responseDrafts = createResponseDraftStore();
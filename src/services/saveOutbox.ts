@@ -0,0 +1,103 @@
+import { nanoid } from 'nanoid';
+import { Form, Question } from '../types/form';
+import { StorageAdapter, createLocalStorageAdapter } from './storage';
+
+const OUTBOX_KEY = 'form_builder_outbox';
+
+const MAX_RETRY_DELAY = 30000;
+
+export type OutboxEntry =
+  | { id: string; formId: string; kind: 'form'; form: Form; queuedAt: number }
+  | { id: string; formId: string; kind: 'question'; question: Question; queuedAt: number };
+
+// Omits from each member of the union so every kind keeps its own payload
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+type NewOutboxEntry = DistributiveOmit<OutboxEntry, 'id' | 'queuedAt'>;
+
+// Entries for the same target can be collapsed; the newer one carries every change
+const getTarget = (entry: NewOutboxEntry | OutboxEntry) =>
+  entry.kind === 'form' ? `form:${entry.formId}` : `question:${entry.formId}:${entry.question.id}`;
+
+/** 1s, 2s, 4s, ... capped at 30s. */
+export const getRetryDelay = (attempt: number) => Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY);
+
+/**
+ * Applies queued saves to a form loaded from the service, so edits that never
+ * reached it show up again after a reload.
+ */
+export const applyOutboxEntries = (form: Form, entries: OutboxEntry[]): Form =>
+  entries
+    .filter((entry) => entry.formId === form.id)
+    .reduce<Form>((current, entry) => {
+      if (entry.kind === 'form') {
+        return { ...entry.form, revision: current.revision, updatedAt: current.updatedAt };
+      }
+      const exists = current.questions.some((q) => q.id === entry.question.id);
+      return {
+        ...current,
+        questions: exists
+          ? current.questions.map((q) => (q.id === entry.question.id ? entry.question : q))
+          : [...current.questions, entry.question],
+      };
+    }, form);
+
+/**
+ * Persistent, ordered queue of builder saves that have not reached the form
+ * service yet. Entries are kept in browser storage even when the service is
+ * remote, so they survive reloads and outages.
+ */
+export const createSaveOutbox = (storage: StorageAdapter = createLocalStorageAdapter()) => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Every change is a read-modify-write of the whole list, so they run one at a time
+  const update = <T>(change: (entries: OutboxEntry[]) => { entries: OutboxEntry[]; result: T }) => {
+    const result = queue.then(async () => {
+      const next = change((await storage.getItem<OutboxEntry[]>(OUTBOX_KEY)) || []);
+      await storage.setItem(OUTBOX_KEY, next.entries);
+      return next.result;
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    async getEntries(formId: string): Promise<OutboxEntry[]> {
+      await queue;
+      return ((await storage.getItem<OutboxEntry[]>(OUTBOX_KEY)) || []).filter(
+        (entry) => entry.formId === formId
+      );
+    },
+
+    /**
+     * Queues a save. If the last queued entry targets the same form or
+     * question it is replaced, which keeps the order intact.
+     */
+    add(newEntry: NewOutboxEntry): Promise<OutboxEntry> {
+      return update((entries) => {
+        const entry = { ...newEntry, id: nanoid(), queuedAt: Date.now() } as OutboxEntry;
+        const last = entries[entries.length - 1];
+        const kept = last && getTarget(last) === getTarget(entry) ? entries.slice(0, -1) : entries;
+        return { entries: [...kept, entry], result: entry };
+      });
+    },
+
+    remove(id: string): Promise<void> {
+      return update((entries) => ({
+        entries: entries.filter((entry) => entry.id !== id),
+        result: undefined,
+      }));
+    },
+
+    clear(formId: string): Promise<void> {
+      return update((entries) => ({
+        entries: entries.filter((entry) => entry.formId !== formId),
+        result: undefined,
+      }));
+    },
+  };
+};
+
+export type SaveOutbox = ReturnType<typeof createSaveOutbox>;
+
+export const saveOutbox = createSaveOutbox();
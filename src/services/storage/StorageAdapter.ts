@@ -0,0 +1,10 @@
+/**
+ * Key/value persistence used by the form service. Values are plain JSON data.
+ */
+export interface StorageAdapter {
+  getItem<T>(key: string): Promise<T | null>;
+  setItem<T>(key: string, value: T): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export type StorageAdapterKind = 'localStorage' | 'indexedDB' | 'memory';
@@ -0,0 +1,35 @@
+import { StorageAdapter, StorageAdapterKind } from './StorageAdapter';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createIndexedDbAdapter, isIndexedDbAvailable } from './indexedDbAdapter';
+import { createMemoryStorageAdapter } from './memoryStorageAdapter';
+import { migrateLocalStorageToIndexedDb } from './migrateToIndexedDb';
+
+export type { StorageAdapter, StorageAdapterKind } from './StorageAdapter';
+export { createLocalStorageAdapter } from './localStorageAdapter';
+export { createIndexedDbAdapter } from './indexedDbAdapter';
+export { createMemoryStorageAdapter } from './memoryStorageAdapter';
+
+/**
+ * Creates the adapter picked at startup. IndexedDB falls back to localStorage
+ * where it is unavailable, and takes over any data localStorage still holds.
+ */
+export const setupStorage = async (
+  kind: StorageAdapterKind,
+  legacyKeys: string[]
+): Promise<StorageAdapter> => {
+  switch (kind) {
+    case 'memory':
+      return createMemoryStorageAdapter();
+    case 'localStorage':
+      return createLocalStorageAdapter();
+    case 'indexedDB':
+    default: {
+      if (!isIndexedDbAvailable()) {
+        return createLocalStorageAdapter();
+      }
+      const adapter = createIndexedDbAdapter();
+      await migrateLocalStorageToIndexedDb(legacyKeys, adapter);
+      return adapter;
+    }
+  }
+};
@@ -0,0 +1,50 @@
+import { StorageAdapter } from './StorageAdapter';
+
+const STORE_NAME = 'keyval';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`IndexedDB "${name}" is blocked by another tab`));
+  });
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Stores each key as one record in a single object store. The database is
+ * opened lazily on first use and then shared by every call.
+ */
+export const createIndexedDbAdapter = (databaseName = 'form_builder'): StorageAdapter => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const getStore = async (mode: IDBTransactionMode) => {
+    database ??= openDatabase(databaseName);
+    return (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  };
+
+  return {
+    async getItem<T>(key: string) {
+      const result = await promisify((await getStore('readonly')).get(key));
+      return result === undefined ? null : (result as T);
+    },
+
+    async setItem<T>(key: string, value: T) {
+      await promisify((await getStore('readwrite')).put(value, key));
+    },
+
+    async removeItem(key: string) {
+      await promisify((await getStore('readwrite')).delete(key));
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import { StorageAdapter } from './StorageAdapter';
+
+// The Storage object is looked up on use so the adapter can be created before the DOM exists
+export const createLocalStorageAdapter = (storage?: Storage): StorageAdapter => {
+  const getStorage = () => storage ?? window.localStorage;
+
+  return {
+    async getItem<T>(key: string) {
+      const raw = getStorage().getItem(key);
+      return raw === null ? null : (JSON.parse(raw) as T);
+    },
+
+    async setItem<T>(key: string, value: T) {
+      getStorage().setItem(key, JSON.stringify(value));
+    },
+
+    async removeItem(key: string) {
+      getStorage().removeItem(key);
+    },
+  };
+};
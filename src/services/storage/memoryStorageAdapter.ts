@@ -0,0 +1,22 @@
+import { StorageAdapter } from './StorageAdapter';
+
+// Values are cloned on the way in and out so callers never share references with the store
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const createMemoryStorageAdapter = (initial: Record<string, unknown> = {}): StorageAdapter => {
+  const items = new Map<string, unknown>(Object.entries(initial).map(([k, v]) => [k, clone(v)]));
+
+  return {
+    async getItem<T>(key: string) {
+      return items.has(key) ? clone(items.get(key) as T) : null;
+    },
+
+    async setItem<T>(key: string, value: T) {
+      items.set(key, clone(value));
+    },
+
+    async removeItem(key: string) {
+      items.delete(key);
+    },
+  };
+};
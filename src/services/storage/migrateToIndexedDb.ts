@@ -0,0 +1,29 @@
+import { StorageAdapter } from './StorageAdapter';
+
+const MIGRATION_MARKER_KEY = 'form_builder_migrated_from_local_storage';
+
+/**
+ * Moves data that older versions kept in localStorage into IndexedDB. Runs
+ * once per browser: a marker is written to the target when it completes, and
+ * keys the target already holds are never overwritten. Only keys that were
+ * copied are removed from localStorage.
+ */
+export const migrateLocalStorageToIndexedDb = async (
+  keys: string[],
+  target: StorageAdapter,
+  source: Storage = window.localStorage
+) => {
+  if (await target.getItem<boolean>(MIGRATION_MARKER_KEY)) return;
+
+  for (const key of keys) {
+    const raw = source.getItem(key);
+    if (raw === null) continue;
+
+    if ((await target.getItem(key)) === null) {
+      await target.setItem(key, JSON.parse(raw));
+      source.removeItem(key);
+    }
+  }
+
+  await target.setItem(MIGRATION_MARKER_KEY, true);
+};
@@ -0,0 +1,19 @@
+import axe from 'axe-core';
+import { expect } from 'vitest';
+
+// jsdom does no layout, so contrast can't be measured; regions only make sense for whole pages
+const DISABLED_RULES = ['color-contrast', 'region'];
+
+/**
+ * Runs axe over a rendered container and fails with the ids and offending
+ * markup of every violation.
+ */
+export const expectNoAxeViolations = async (container: Element) => {
+  const results = await axe.run(container, {
+    rules: Object.fromEntries(DISABLED_RULES.map((rule) => [rule, { enabled: false }])),
+  });
+  const violations = results.violations.map(
+    (violation) => `${violation.id}: ${violation.nodes.map((node) => node.html).join(', ')}`
+  );
+  expect(violations).toEqual([]);
+};
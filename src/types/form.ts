@@ -1,4 +1,35 @@
-export type QuestionType = 'text' | 'number' | null;
+export type QuestionType =
+  | 'text'
+  | 'number'
+  | 'select'
+  | 'radio'
+  | 'checkbox'
+  | 'calculated'
+  | 'hidden'
+  | 'file'
+  | 'rating'
+  | 'scale'
+  | 'matrix'
+  | null;
+
+export const CHOICE_QUESTION_TYPES: QuestionType[] = ['select', 'radio', 'checkbox'];
+
+// Sentinel answer for the free-text "Other" choice
+export const OTHER_OPTION_VALUE = '__other__';
+
+export interface QuestionOption {
+  id: string;
+  label: string;
+}
+
+// Rating and scale questions are answered with a whole number from min to max
+export interface ScaleSettings {
+  min: number;
+  max: number;
+  // Scale questions: shown under the first and last point, e.g. "Not likely" and "Very likely"
+  minLabel?: string;
+  maxLabel?: string;
+}
 
 export interface ValidationRule {
   required?: boolean;
@@ -7,6 +38,35 @@ export interface ValidationRule {
   min?: number;
   max?: number;
   pattern?: string;
+  minSelections?: number;
+  maxSelections?: number;
+  // File questions: MIME types such as "application/pdf" or "image/*"; any type when unset
+  acceptedFileTypes?: string[];
+  // In bytes, per file
+  maxFileSize?: number;
+  maxFiles?: number;
+  // Shown instead of the built-in error texts when any rule fails
+  message?: string;
+}
+
+export type VisibilityOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'contains'
+  | 'is_empty';
+
+export interface VisibilityCondition {
+  id: string;
+  questionId: string;
+  operator: VisibilityOperator;
+  value?: string;
+}
+
+export interface VisibilityRule {
+  combinator: 'and' | 'or';
+  conditions: VisibilityCondition[];
 }
 
 export interface Question {
@@ -15,17 +75,110 @@ export interface Question {
   label: string;
   placeholder?: string;
   validation?: ValidationRule;
-  value?: string | number;
+  options?: QuestionOption[];
+  allowOther?: boolean;
+  // Rating questions use only `max`, as the number of stars
+  scale?: ScaleSettings;
+  // Matrix questions: each row is answered with one of the `options`, shown as columns
+  rows?: QuestionOption[];
+  visibility?: VisibilityRule;
+  // Calculated questions: see logic/formula.ts for the syntax
+  formula?: string;
+  decimals?: number;
+  pageId?: string;
+  // URL parameter that prefills the answer, besides the question id
+  alias?: string;
+  value?: string | number | string[];
+}
+
+export interface FormPage {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export type FormThemeFont = 'system' | 'serif' | 'humanist' | 'rounded' | 'mono';
+
+export type FormThemeRadius = 'none' | 'small' | 'medium' | 'large' | 'pill';
+
+// Look of the rendered form; unset fields fall back to the app's default theme
+export interface FormTheme {
+  primaryColor?: string;
+  backgroundColor?: string;
+  fontFamily?: FormThemeFont;
+  logoUrl?: string;
+  submitLabel?: string;
+  borderRadius?: FormThemeRadius;
+}
+
+export interface QuestionTranslation {
+  label?: string;
+  placeholder?: string;
+  // Keyed by option id; answers keep the default-language label
+  options?: Record<string, string>;
+  // Keyed by row id, like options
+  rows?: Record<string, string>;
+  minLabel?: string;
+  maxLabel?: string;
+  validationMessage?: string;
+}
+
+export interface PageTranslation {
+  title?: string;
+  description?: string;
+}
+
+export interface FormTranslation {
+  title?: string;
+  submitLabel?: string;
+  questions?: Record<string, QuestionTranslation>;
+  pages?: Record<string, PageTranslation>;
 }
 
 export interface Form {
   id: string;
   title: string;
   questions: Question[];
+  pages?: FormPage[];
+  theme?: FormTheme;
+  // Language of the form's own texts; 'en' when unset
+  defaultLocale?: string;
+  // Keyed by locale, e.g. 'de' or 'hi'
+  translations?: Record<string, FormTranslation>;
+  archived?: boolean;
+  revision: number;
   createdAt: number;
   updatedAt: number;
 }
 
+export interface FormRevision {
+  id: string;
+  formId: string;
+  revision: number;
+  snapshot: Form;
+  createdAt: number;
+}
+
+// A file answer; the content stays in the local file store under `id`
+export interface FileAnswer {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+// A matrix answer: the chosen column label keyed by row label; unanswered rows are left out
+export type MatrixAnswer = Record<string, string>;
+
 export interface FormValues {
-  [key: string]: string | number;
-} 
\ No newline at end of file
+  [key: string]: string | number | string[] | FileAnswer[] | MatrixAnswer;
+}
+
+export interface Submission {
+  id: string;
+  formId: string;
+  formRevision: number;
+  answers: FormValues;
+  createdAt: number;
+  updatedAt: number;
+}
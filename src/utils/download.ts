@@ -0,0 +1,17 @@
+/**
+ * Saves generated content as a file through a temporary object URL.
+ */
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Keeps exported file names readable and safe across platforms
+export const toFileName = (title: string, fallback = 'form') =>
+  title.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || fallback;
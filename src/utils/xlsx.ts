@@ -0,0 +1,88 @@
+import { createZip } from './zip';
+
+export type XlsxCell = string | number | Date | null;
+
+// Style indexes into cellXfs in styles.xml
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+
+// Excel counts days from 1899-12-30 and has no time zones, so dates are written in local time
+const toExcelDate = (date: Date) =>
+  (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+
+// XML 1.0 cannot carry control characters other than tab and line breaks, even escaped
+const isXmlChar = (char: string) => char >= ' ' || char === '\t' || char === '\n' || char === '\r';
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const toSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+const renderCell = (cell: XlsxCell, ref: string, isHeader: boolean) => {
+  if (cell === null || cell === '') return '';
+  if (cell instanceof Date) return `<c r="${ref}" s="${STYLE_DATE}"><v>${toExcelDate(cell)}</v></c>`;
+  if (typeof cell === 'number' && isFinite(cell)) return `<c r="${ref}"><v>${cell}</v></c>`;
+
+  const style = isHeader ? ` s="${STYLE_HEADER}"` : '';
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+};
+
+const renderSheet = (rows: XlsxCell[][]) => {
+  const body = rows
+    .map(
+      (row, r) =>
+        `<row r="${r + 1}">${row.map((cell, c) => renderCell(cell, `${columnName(c)}${r + 1}`, r === 0)).join('')}</row>`
+    )
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${body}</sheetData></worksheet>`;
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Plain, bold header and built-in format 22 ("m/d/yyyy h:mm") for dates
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs></styleSheet>`;
+
+const renderWorkbook = (sheetName: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+/**
+ * Builds a single-sheet XLSX workbook. The first row is treated as a bold,
+ * frozen header; numbers and dates keep their type so they can be sorted and
+ * summed in the spreadsheet.
+ */
+export const createXlsx = (rows: XlsxCell[][], sheetName = 'Sheet1'): Uint8Array => {
+  const encoder = new TextEncoder();
+  const file = (path: string, content: string) => ({ path, data: encoder.encode(content) });
+
+  return createZip([
+    file('[Content_Types].xml', CONTENT_TYPES),
+    file('_rels/.rels', ROOT_RELS),
+    file('xl/workbook.xml', renderWorkbook(sheetName)),
+    file('xl/_rels/workbook.xml.rels', WORKBOOK_RELS),
+    file('xl/styles.xml', STYLES),
+    file('xl/worksheets/sheet1.xml', renderSheet(rows)),
+  ]);
+};
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { OTHER_OPTION_VALUE, Question } from '../../types/form';
+import { createFormSchema, createQuestionSchema } from '../questionSchema';
+import { validateQuestionDefinition } from '../questionDefinition';
+import { createMessageFormatter } from '../../logic/messages';
+
+const question = (overrides: Partial<Question>): Question => ({
+  id: 'q1',
+  type: 'text',
+  label: 'Question',
+  ...overrides,
+});
+
+const firstError = (q: Question, value: unknown) => {
+  const result = createQuestionSchema(q).safeParse(value);
+  return result.success ? null : result.error.errors[0].message;
+};
+
+describe('createQuestionSchema', () => {
+  it('enforces text length and pattern rules', () => {
+    const q = question({ validation: { minLength: 3, maxLength: 5, pattern: '^[a-z]+$' } });
+
+    expect(firstError(q, 'ab')).toBe('Minimum 3 characters required');
+    expect(firstError(q, 'abcdef')).toBe('Maximum 5 characters allowed');
+    expect(firstError(q, 'ABC')).toBe('Invalid format');
+    expect(firstError(q, 'abc')).toBeNull();
+  });
+
+  it('localises built-in messages and prefers the question\'s own message', () => {
+    const q = question({ type: 'number', validation: { min: 18 } });
+    const german = createMessageFormatter('de-AT');
+
+    expect(createQuestionSchema(q, german).safeParse('3').error?.errors[0].message).toBe(
+      'Der Wert muss mindestens 18 sein'
+    );
+    expect(firstError({ ...q, validation: { min: 18, message: 'Adults only' } }, '3')).toBe('Adults only');
+  });
+
+  it('skips rules for blank optional answers', () => {
+    const q = question({ validation: { minLength: 3 } });
+    expect(firstError(q, '')).toBeNull();
+  });
+
+  it('treats required numbers as non-blank rather than positive', () => {
+    const q = question({ type: 'number', validation: { required: true } });
+
+    expect(firstError(q, '')).toBe('This field is required');
+    expect(firstError(q, '0')).toBeNull();
+    expect(createQuestionSchema(q).parse('0')).toBe(0);
+  });
+
+  it('enforces number bounds', () => {
+    const q = question({ type: 'number', validation: { min: 2, max: 4 } });
+
+    expect(firstError(q, '1')).toBe('Value must be at least 2');
+    expect(firstError(q, '5')).toBe('Value must not exceed 4');
+    expect(firstError(q, 'abc')).toBe('Must be a number');
+  });
+
+  const options = ['a', 'b', 'c'].map((label) => ({ id: label, label }));
+
+  it('enforces checkbox selection counts', () => {
+    const q = question({ type: 'checkbox', options, validation: { minSelections: 2, maxSelections: 2 } });
+
+    expect(firstError(q, ['a'])).toBe('Select at least 2 options');
+    expect(firstError(q, ['a', 'b', 'c'])).toBe('Select at most 2 options');
+    expect(firstError(q, ['a', 'b'])).toBeNull();
+  });
+
+  it('keeps required checkboxes required whatever the minimum selection', () => {
+    const atLeastNone = question({
+      type: 'checkbox',
+      options,
+      validation: { required: true, minSelections: 0 },
+    });
+    const atLeastTwo = question({
+      type: 'checkbox',
+      options,
+      validation: { required: true, minSelections: 2 },
+    });
+
+    expect(firstError(atLeastNone, [])).toBe('This field is required');
+    expect(firstError(atLeastNone, ['a'])).toBeNull();
+    expect(firstError(atLeastTwo, [])).toBe('Select at least 2 options');
+    expect(firstError(atLeastTwo, ['a'])).toBe('Select at least 2 options');
+  });
+
+  it('only accepts offered options, and "Other" where it is allowed', () => {
+    const radio = question({ type: 'radio', options });
+    const checkbox = question({ type: 'checkbox', options, allowOther: true });
+
+    expect(firstError(radio, 'b')).toBeNull();
+    expect(firstError(radio, '')).toBeNull();
+    expect(firstError(radio, 'z')).toBe('Invalid format');
+    expect(firstError(radio, OTHER_OPTION_VALUE)).toBe('Invalid format');
+    expect(firstError(checkbox, ['a', OTHER_OPTION_VALUE])).toBeNull();
+    expect(firstError(checkbox, ['a', 'z'])).toBe('Invalid format');
+  });
+});
+
+describe('rating, scale and matrix answers', () => {
+  const nps = question({ type: 'scale', scale: { min: 0, max: 10 }, validation: { required: true } });
+  const matrix = question({
+    type: 'matrix',
+    rows: [
+      { id: 'r1', label: 'Speed' },
+      { id: 'r2', label: 'Price' },
+    ],
+    options: [
+      { id: 'c1', label: 'Bad' },
+      { id: 'c2', label: 'Good' },
+    ],
+    validation: { required: true },
+  });
+
+  it('accepts whole numbers within the scale, including prefilled strings', () => {
+    expect(createQuestionSchema(nps).parse('0')).toBe(0);
+    expect(firstError(nps, 11)).toBe('Choose a value from 0 to 10');
+    expect(firstError(nps, 2.5)).toBe('Choose a value from 0 to 10');
+    expect(firstError(nps, '')).toBe('This field is required');
+    expect(firstError(question({ type: 'rating' }), 6)).toBe('Choose a value from 1 to 5');
+  });
+
+  it('requires every matrix row and orders answers by row', () => {
+    expect(firstError(matrix, {})).toBe('This field is required');
+    expect(firstError(matrix, { Speed: 'Good' })).toBe('Answer every row');
+    expect(firstError(matrix, { Speed: 'Great', Price: 'Bad' })).toBe('Invalid format');
+    expect(Object.keys(createQuestionSchema(matrix).parse({ Price: 'Bad', Speed: 'Good' })))
+      .toEqual(['Speed', 'Price']);
+  });
+});
+
+describe('createFormSchema', () => {
+  it('requires free text when "Other" is chosen', () => {
+    const schema = createFormSchema([
+      question({ type: 'radio', allowOther: true, options: [{ id: 'o1', label: 'A' }] }),
+    ]);
+
+    expect(schema.safeParse({ q1: '__other__', q1_other: '' }).success).toBe(false);
+    expect(schema.safeParse({ q1: '__other__', q1_other: 'B' }).success).toBe(true);
+  });
+});
+
+describe('validateQuestionDefinition', () => {
+  it('rejects inverted ranges and bad patterns', () => {
+    expect(validateQuestionDefinition(question({ validation: { minLength: 5, maxLength: 2 } })).isValid)
+      .toBe(false);
+    expect(validateQuestionDefinition(question({ validation: { pattern: '[' } })).isValid).toBe(false);
+    expect(validateQuestionDefinition(question({ type: 'number', validation: { min: 3, max: 1 } })).isValid)
+      .toBe(false);
+  });
+
+  it('rejects choice questions without usable options', () => {
+    expect(validateQuestionDefinition(question({ type: 'select', options: [] })).isValid).toBe(false);
+    expect(validateQuestionDefinition(question({ type: 'select', options: [{ id: 'o', label: ' ' }] })).isValid)
+      .toBe(false);
+    expect(validateQuestionDefinition(question({ type: 'select', options: [{ id: 'o', label: 'A' }] })).isValid)
+      .toBe(true);
+    expect(
+      validateQuestionDefinition(
+        question({ type: 'radio', options: [{ id: 'o1', label: 'Yes' }, { id: 'o2', label: ' yes' }] })
+      ).error
+    ).toBe('Options must have different labels');
+  });
+
+  it('limits scales and stars', () => {
+    expect(validateQuestionDefinition(question({ type: 'scale', scale: { min: 0, max: 10 } })).isValid)
+      .toBe(true);
+    expect(validateQuestionDefinition(question({ type: 'scale', scale: { min: 5, max: 5 } })).error)
+      .toBe('The scale must end higher than it starts');
+    expect(validateQuestionDefinition(question({ type: 'scale', scale: { min: 0, max: 11 } })).error)
+      .toBe('A scale can have at most 11 points');
+    expect(validateQuestionDefinition(question({ type: 'rating', scale: { min: 1, max: 12 } })).isValid)
+      .toBe(false);
+  });
+
+  it('needs distinct matrix rows and at least one column', () => {
+    const matrix = (overrides: Partial<Question>) =>
+      validateQuestionDefinition(
+        question({
+          type: 'matrix',
+          rows: [{ id: 'r1', label: 'Speed' }],
+          options: [{ id: 'c1', label: 'Ok' }],
+          ...overrides,
+        })
+      );
+    expect(matrix({}).isValid).toBe(true);
+    expect(matrix({ rows: [{ id: 'r1', label: 'Speed' }, { id: 'r2', label: 'speed' }] }).error)
+      .toBe('Rows must have different labels');
+    expect(matrix({ options: [] }).error).toBe('Add at least one column');
+  });
+
+  it('needs visibility conditions to refer to an earlier question', () => {
+    const source = question({ id: 'source', label: 'Source' });
+    const dependent = question({
+      id: 'dependent',
+      visibility: {
+        combinator: 'and',
+        conditions: [{ id: 'c1', questionId: 'source', operator: 'equals', value: 'yes' }],
+      },
+    });
+
+    expect(validateQuestionDefinition(dependent, [source, dependent]).isValid).toBe(true);
+    // Moved above its source
+    expect(validateQuestionDefinition(dependent, [dependent, source]).error).toBe(
+      'Visibility conditions can only refer to earlier questions'
+    );
+    // Source deleted
+    expect(validateQuestionDefinition(dependent, [dependent]).error).toBe(
+      'A visibility condition refers to a deleted question'
+    );
+  });
+});
@@ -0,0 +1,262 @@
+import { CHOICE_QUESTION_TYPES, Question } from '../types/form';
+import {
+  findFormulaCycle,
+  getFormulaReferences,
+  parseFormula,
+  resolveFormulaReference,
+} from '../logic/formula';
+import { FORM_LINK_PARAM, isValidAlias } from '../logic/prefill';
+import { MAX_RATING_STARS, MAX_SCALE_POINTS, getScaleRange } from '../logic/scales';
+
+export interface DefinitionResult {
+  isValid: boolean;
+  error?: string;
+}
+
+// "type/subtype", where the subtype may be * ("image/*")
+const isMimeType = (type: string) => /^[\w.+-]+\/([\w.+-]+|\*)$/.test(type);
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks a calculated question's formula. References and circular references
+ * can only be checked when the rest of the form's questions are given.
+ */
+export const validateFormula = (question: Question, questions?: Question[]): DefinitionResult => {
+  if (!question.formula?.trim()) {
+    return { isValid: false, error: 'Formula is required' };
+  }
+
+  const parsed = parseFormula(question.formula);
+  if (!parsed.success) {
+    return { isValid: false, error: `Formula error: ${parsed.error}` };
+  }
+
+  if (!questions) {
+    return { isValid: true };
+  }
+
+  // The question being edited may be newer than the copy in the list
+  const current = questions.map((q) => (q.id === question.id ? question : q));
+  const unknown = getFormulaReferences(parsed.ast).find(
+    (name) => !resolveFormulaReference(name, current)
+  );
+  if (unknown) {
+    return { isValid: false, error: `Formula refers to an unknown question "{${unknown}}"` };
+  }
+
+  const cycle = findFormulaCycle(question, current);
+  if (cycle) {
+    return {
+      isValid: false,
+      error: `Circular reference: ${cycle.map((q) => q.label || q.id).join(' → ')}`,
+    };
+  }
+
+  return { isValid: true };
+};
+
+export const validateFileRules = (question: Question): DefinitionResult => {
+  if (question.validation?.acceptedFileTypes?.some((type) => !isMimeType(type))) {
+    return {
+      isValid: false,
+      error: 'Accepted file types must be MIME types such as application/pdf or image/*',
+    };
+  }
+  return { isValid: true };
+};
+
+export const validateScale = (question: Question): DefinitionResult => {
+  const { min, max } = getScaleRange(question);
+
+  if (question.type === 'rating') {
+    if (!Number.isInteger(max) || max < 2 || max > MAX_RATING_STARS) {
+      return { isValid: false, error: `A rating needs 2 to ${MAX_RATING_STARS} stars` };
+    }
+    return { isValid: true };
+  }
+
+  if (!Number.isInteger(min) || !Number.isInteger(max)) {
+    return { isValid: false, error: 'Scale ends must be whole numbers' };
+  }
+  if (min >= max) {
+    return { isValid: false, error: 'The scale must end higher than it starts' };
+  }
+  if (max - min + 1 > MAX_SCALE_POINTS) {
+    return { isValid: false, error: `A scale can have at most ${MAX_SCALE_POINTS} points` };
+  }
+  return { isValid: true };
+};
+
+// Answers are keyed by row label, so rows must be distinct
+export const validateMatrix = (question: Question): DefinitionResult => {
+  const rows = (question.rows || []).map((row) => row.label.trim());
+  const columns = question.options || [];
+
+  if (!rows.length) {
+    return { isValid: false, error: 'Add at least one row' };
+  }
+  if (rows.some((row) => !row)) {
+    return { isValid: false, error: 'Rows cannot be empty' };
+  }
+  if (new Set(rows.map((row) => row.toLowerCase())).size !== rows.length) {
+    return { isValid: false, error: 'Rows must have different labels' };
+  }
+  if (!columns.length) {
+    return { isValid: false, error: 'Add at least one column' };
+  }
+  if (columns.some((column) => !column.label.trim())) {
+    return { isValid: false, error: 'Columns cannot be empty' };
+  }
+  return { isValid: true };
+};
+
+/**
+ * Checks the URL parameter that prefills a question. Clashes with other
+ * questions can only be checked when the form's questions are given.
+ */
+export const validateAlias = (question: Question, questions?: Question[]): DefinitionResult => {
+  const alias = question.alias?.trim();
+  if (!alias) {
+    return { isValid: true };
+  }
+
+  if (!isValidAlias(alias)) {
+    return {
+      isValid: false,
+      error: 'URL parameter must start with a letter and contain only letters, digits, "-" and "_"',
+    };
+  }
+  if (alias === FORM_LINK_PARAM) {
+    return { isValid: false, error: `URL parameter "${FORM_LINK_PARAM}" is reserved for share links` };
+  }
+  if (questions?.some((q) => q.id !== question.id && (q.id === alias || q.alias?.trim() === alias))) {
+    return { isValid: false, error: `URL parameter "${alias}" is already used by another question` };
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Checks that a question is configured well enough to be rendered and saved.
+ * Pass the form's questions to also check references between questions.
+ */
+export const validateQuestionDefinition = (
+  question: Question,
+  questions?: Question[]
+): DefinitionResult => {
+  if (!question.label?.trim()) {
+    return { isValid: false, error: 'Question title is required' };
+  }
+
+  if (!question.type) {
+    return { isValid: false, error: 'Question type is required' };
+  }
+
+  const validation = question.validation || {};
+
+  switch (question.type) {
+    case 'text': {
+      if (validation.minLength !== undefined && validation.maxLength !== undefined &&
+          validation.minLength > validation.maxLength) {
+        return { isValid: false, error: 'Minimum length cannot be greater than maximum length' };
+      }
+      if (validation.pattern && !isValidPattern(validation.pattern)) {
+        return { isValid: false, error: 'Pattern is not a valid regular expression' };
+      }
+      break;
+    }
+    case 'number': {
+      if (validation.min !== undefined && validation.max !== undefined &&
+          validation.min > validation.max) {
+        return { isValid: false, error: 'Minimum value cannot be greater than maximum value' };
+      }
+      break;
+    }
+    case 'file': {
+      const fileResult = validateFileRules(question);
+      if (!fileResult.isValid) {
+        return fileResult;
+      }
+      break;
+    }
+    case 'rating':
+    case 'scale': {
+      const scaleResult = validateScale(question);
+      if (!scaleResult.isValid) {
+        return scaleResult;
+      }
+      break;
+    }
+    case 'matrix': {
+      const matrixResult = validateMatrix(question);
+      if (!matrixResult.isValid) {
+        return matrixResult;
+      }
+      break;
+    }
+    case 'calculated': {
+      const formulaResult = validateFormula(question, questions);
+      if (!formulaResult.isValid) {
+        return formulaResult;
+      }
+      break;
+    }
+  }
+
+  if (CHOICE_QUESTION_TYPES.includes(question.type)) {
+    if (!question.options?.length) {
+      return { isValid: false, error: 'Add at least one option' };
+    }
+    if (question.options.some((option) => !option.label.trim())) {
+      return { isValid: false, error: 'Options cannot be empty' };
+    }
+    // Answers hold the option's label, so two options with one label can't be told apart
+    const labels = question.options.map((option) => option.label.trim().toLowerCase());
+    if (new Set(labels).size !== labels.length) {
+      return { isValid: false, error: 'Options must have different labels' };
+    }
+  }
+
+  if (question.type === 'checkbox' &&
+      validation.minSelections !== undefined && validation.maxSelections !== undefined &&
+      validation.minSelections > validation.maxSelections) {
+    return { isValid: false, error: 'Minimum selections cannot be greater than maximum selections' };
+  }
+
+  const aliasResult = validateAlias(question, questions);
+  if (!aliasResult.isValid) {
+    return aliasResult;
+  }
+
+  const conditions = question.visibility?.conditions || [];
+  if (conditions.some((c) => !c.questionId)) {
+    return { isValid: false, error: 'Every visibility condition needs a question' };
+  }
+  if (conditions.some((c) => c.operator !== 'is_empty' && !c.value?.trim())) {
+    return { isValid: false, error: 'Every visibility condition needs a value' };
+  }
+  if (questions) {
+    // Answers are only known for questions shown before, so later ones would never match
+    const index = questions.findIndex((q) => q.id === question.id);
+    const earlier = index === -1 ? questions : questions.slice(0, index);
+    if (conditions.some((c) => !questions.some((q) => q.id === c.questionId))) {
+      return { isValid: false, error: 'A visibility condition refers to a deleted question' };
+    }
+    if (conditions.some((c) => !earlier.some((q) => q.id === c.questionId))) {
+      return { isValid: false, error: 'Visibility conditions can only refer to earlier questions' };
+    }
+  }
+
+  return { isValid: true };
+};
+
+export const isQuestionValid = (question: Question, questions?: Question[]): boolean =>
+  validateQuestionDefinition(question, questions).isValid;
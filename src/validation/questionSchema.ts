@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import { OTHER_OPTION_VALUE, Question } from '../types/form';
+import { MessageFormatter, formatMessage } from '../logic/messages';
+import { getFileError } from '../logic/fileUpload';
+import { getScaleRange } from '../logic/scales';
+import { orderMatrixAnswer } from '../logic/matrix';
+
+// Field holding the free text typed next to an "Other" choice
+export const otherFieldName = (questionId: string) => `${questionId}_other`;
+
+export const isOtherSelected = (value: unknown) =>
+  Array.isArray(value) ? value.includes(OTHER_OPTION_VALUE) : value === OTHER_OPTION_VALUE;
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || String(value).trim() === '';
+
+// A question's own error message replaces every built-in one
+const messagesFor = (question: Question, messages: MessageFormatter): MessageFormatter => {
+  const custom = question.validation?.message?.trim();
+  return custom ? () => custom : messages;
+};
+
+const createTextSchema = (question: Question, messages: MessageFormatter) => {
+  const { required, minLength, maxLength, pattern } = question.validation || {};
+
+  return z.string().superRefine((value, ctx) => {
+    if (isBlank(value)) {
+      if (required) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('required') });
+      }
+      return;
+    }
+    if (minLength !== undefined && value.length < minLength) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: messages('minLength', { min: minLength }),
+      });
+    } else if (maxLength !== undefined && value.length > maxLength) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: messages('maxLength', { max: maxLength }),
+      });
+    } else if (pattern && !new RegExp(pattern).test(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('invalidFormat') });
+    }
+  });
+};
+
+// Inputs hand numbers over as strings; blank answers come out as ''
+const createNumberSchema = (question: Question, messages: MessageFormatter) => {
+  const { required, min, max } = question.validation || {};
+
+  return z
+    .union([z.string(), z.number()])
+    .superRefine((value, ctx) => {
+      if (isBlank(value)) {
+        if (required) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('required') });
+        }
+        return;
+      }
+
+      const number = Number(value);
+      if (isNaN(number)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('notANumber') });
+      } else if (min !== undefined && number < min) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('min', { min }) });
+      } else if (max !== undefined && number > max) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('max', { max }) });
+      }
+    })
+    .transform((value) => (isBlank(value) ? '' : Number(value)));
+};
+
+// Choice answers hold an option's default-language label, or the "Other" marker
+const isChoiceValue = (question: Question, value: string) =>
+  (question.allowOther && value === OTHER_OPTION_VALUE) ||
+  (question.options || []).some((option) => option.label === value);
+
+const createChoiceSchema = (question: Question, messages: MessageFormatter) => {
+  let schema = z.string();
+  if (question.validation?.required) {
+    schema = schema.min(1, messages('required'));
+  }
+  return schema.refine(
+    (value) => value === '' || isChoiceValue(question, value),
+    messages('invalidFormat')
+  );
+};
+
+const createMultiChoiceSchema = (question: Question, messages: MessageFormatter) => {
+  const { required, minSelections, maxSelections } = question.validation || {};
+
+  let schema = z.array(
+    z.string().refine((value) => isChoiceValue(question, value), messages('invalidFormat'))
+  );
+  // A second .min() would replace the first, so both bounds go into one check
+  const requiredMin = required ? 1 : 0;
+  if (minSelections !== undefined && minSelections > requiredMin) {
+    schema = schema.min(minSelections, messages('minSelections', { min: minSelections }));
+  } else if (required) {
+    schema = schema.min(1, messages('required'));
+  }
+  if (maxSelections !== undefined) {
+    schema = schema.max(maxSelections, messages('maxSelections', { max: maxSelections }));
+  }
+  return schema;
+};
+
+// Files are checked when picked as well; this catches answers that were changed since
+const createFileSchema = (question: Question, messages: MessageFormatter) => {
+  const { required, maxFiles } = question.validation || {};
+
+  let schema = z.array(
+    z.object({ id: z.string(), name: z.string(), type: z.string(), size: z.number() })
+  );
+  if (required) {
+    schema = schema.min(1, messages('required'));
+  }
+  if (maxFiles !== undefined) {
+    schema = schema.max(maxFiles, messages('maxFiles', { max: maxFiles }));
+  }
+  return schema.superRefine((files, ctx) => {
+    const error = files.map((file) => getFileError(question, file, messages)).find(Boolean);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  });
+};
+
+// Ratings and scales are picked from their range; prefilled answers arrive as strings
+const createScaleSchema = (question: Question, messages: MessageFormatter) => {
+  const { min, max } = getScaleRange(question);
+
+  return z
+    .union([z.string(), z.number()])
+    .superRefine((value, ctx) => {
+      if (isBlank(value)) {
+        if (question.validation?.required) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('required') });
+        }
+        return;
+      }
+
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < min || number > max) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('scaleRange', { min, max }) });
+      }
+    })
+    .transform((value) => (isBlank(value) ? '' : Number(value)));
+};
+
+// A required matrix needs an answer in every row
+const createMatrixSchema = (question: Question, messages: MessageFormatter) => {
+  const rows = (question.rows || []).map((row) => row.label);
+  const columns = (question.options || []).map((option) => option.label);
+
+  return z
+    .record(z.string())
+    .superRefine((answer, ctx) => {
+      const answered = rows.filter((row) => answer[row]);
+      if (answered.some((row) => !columns.includes(answer[row]))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: messages('invalidFormat') });
+      } else if (question.validation?.required && answered.length < rows.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: messages(answered.length ? 'answerEveryRow' : 'required'),
+        });
+      }
+    })
+    .transform((answer) => orderMatrixAnswer(question, answer));
+};
+
+/**
+ * Compiles the answer rules configured on a question into a Zod schema. Error
+ * texts come from `messages`, English by default.
+ */
+export const createQuestionSchema = (
+  question: Question,
+  messages: MessageFormatter = formatMessage
+): z.ZodTypeAny => {
+  const questionMessages = messagesFor(question, messages);
+
+  switch (question.type) {
+    case 'text':
+      return createTextSchema(question, questionMessages);
+    case 'number':
+    case 'calculated':
+      return createNumberSchema(question, questionMessages);
+    case 'select':
+    case 'radio':
+      return createChoiceSchema(question, questionMessages);
+    case 'checkbox':
+      return createMultiChoiceSchema(question, questionMessages);
+    case 'file':
+      return createFileSchema(question, questionMessages);
+    case 'rating':
+    case 'scale':
+      return createScaleSchema(question, questionMessages);
+    case 'matrix':
+      return createMatrixSchema(question, questionMessages);
+    // Filled from the URL or the question's default, never by the respondent
+    case 'hidden':
+      return z.union([z.string(), z.number()]).transform(String);
+    default:
+      return z.string();
+  }
+};
+
+/**
+ * Builds the schema for a whole set of answers keyed by question id,
+ * including the free-text fields behind "Other" choices.
+ */
+export const createFormSchema = (questions: Question[], messages: MessageFormatter = formatMessage) => {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  questions.forEach((question) => {
+    shape[question.id] = createQuestionSchema(question, messages);
+    if (question.allowOther) {
+      shape[otherFieldName(question.id)] = z.string().optional();
+    }
+  });
+
+  return z.object(shape).superRefine((values, ctx) => {
+    questions.forEach((question) => {
+      const otherField = otherFieldName(question.id);
+      if (question.allowOther && isOtherSelected(values[question.id]) && isBlank(values[otherField])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [otherField],
+          message: messages('specifyOther'),
+        });
+      }
+    });
+  });
+};
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Storage adapter picked at startup: `indexedDB` (default), `localStorage` or `memory` */
+  readonly VITE_STORAGE_ADAPTER?: string;
+  /** Base URL of a REST backend; when set, data is stored there instead of in the browser */
+  readonly VITE_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -12,6 +12,11 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: true,
     rollupOptions: {
+      // The app and the iframe page of the embeddable widget
+      input: {
+        main: 'index.html',
+        embed: 'embed.html',
+      },
       output: {
         manualChunks(id) {
           if (id.includes('node_modules')) {
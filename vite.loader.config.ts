@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Builds the embed loader as one classic script that defines window.FormEmbed
+export default defineConfig({
+  build: {
+    outDir: 'dist',
+    emptyOutDir: false,
+    sourcemap: true,
+    lib: {
+      entry: 'src/embed/loader.ts',
+      name: 'FormEmbed',
+      formats: ['iife'],
+      fileName: () => 'form-embed.js',
+    },
+  },
+})